@@ -0,0 +1,129 @@
+import {
+  createKeysPEM,
+  encryptWithPubKeyPEM,
+  decryptWithPrivateKeyPEM,
+  encryptManyWithPubKeyPEM,
+  decryptManyWithPrivateKeyPEM,
+  configureKeyCache,
+  clearKeyCache,
+} from "../src/index";
+
+// Compares the PEM functions with and without the key cache, the batch functions
+// with a loop, the chunked base64 encoder with the per-character one it replaced,
+// and the atob decoder with a lookup-table one. The base64 helpers are private, so
+// chunkedBase64 and atobDecoder are copies of the ones in src/index.ts
+const MESSAGES = 200;
+
+async function time(label: string, run: () => Promise<unknown>) {
+  await run(); // warm up
+  const start = performance.now();
+  await run();
+  console.log(
+    `${label.padEnd(52)} ${(performance.now() - start).toFixed(1)} ms`
+  );
+}
+
+function perCharacterBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function chunkedBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    chunks.push(
+      Reflect.apply(String.fromCharCode, null, bytes.subarray(i, i + 0x8000))
+    );
+  }
+  return btoa(chunks.join(""));
+}
+
+function atobDecoder(base64: string): ArrayBuffer {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+const ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const VALUES = new Int8Array(128).fill(-1);
+for (let i = 0; i < ALPHABET.length; i++) {
+  VALUES[ALPHABET.charCodeAt(i)] = i;
+}
+
+// Handles unpadded input without whitespace, which is all the benchmark feeds it
+function lookupTableDecoder(base64: string): ArrayBuffer {
+  const text = base64.replace(/=+$/, "");
+  const bytes = new Uint8Array((text.length * 3) >> 2);
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  for (let i = 0; i < text.length; i++) {
+    const value = VALUES[text.charCodeAt(i)];
+    if (value === undefined || value < 0) {
+      throw new SyntaxError("Invalid base64 character");
+    }
+    buffer = ((buffer << 6) | value) & 0xffffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = buffer >> bits;
+    }
+  }
+  return bytes.buffer;
+}
+
+async function main() {
+  const keys = await createKeysPEM(2048);
+  const messages = Array.from({ length: MESSAGES }, (_, i) => `message ${i}`);
+  const encrypted = await encryptManyWithPubKeyPEM(messages, keys.publicKey);
+
+  const loop = async () => {
+    for (const message of messages) {
+      await encryptWithPubKeyPEM(message, keys.publicKey);
+    }
+    for (const data of encrypted) {
+      await decryptWithPrivateKeyPEM(data, keys.privateKey);
+    }
+  };
+
+  console.log(`${MESSAGES} RSA-OAEP messages, encrypted then decrypted`);
+  configureKeyCache({ maxSize: 0 });
+  await time("PEM functions, key cache off", loop);
+  configureKeyCache({});
+  clearKeyCache();
+  await time("PEM functions, key cache on", loop);
+  clearKeyCache();
+  await time("encryptMany/decryptMany", async () => {
+    await encryptManyWithPubKeyPEM(messages, keys.publicKey);
+    await decryptManyWithPrivateKeyPEM(encrypted, keys.privateKey);
+  });
+
+  for (const size of [64 * 1024, 1024 * 1024, 8 * 1024 * 1024]) {
+    const bytes = new Uint8Array(size);
+    for (let i = 0; i < size; i += 65536) {
+      crypto.getRandomValues(bytes.subarray(i, i + 65536));
+    }
+    console.log(`\nBase64 of ${size / 1024} KB`);
+    await time("per-character encoder", async () =>
+      perCharacterBase64(bytes.buffer)
+    );
+    await time("chunked encoder", async () => chunkedBase64(bytes.buffer));
+    const base64 = chunkedBase64(bytes.buffer);
+    await time("atob decoder", async () => atobDecoder(base64));
+    await time("lookup-table decoder", async () => lookupTableDecoder(base64));
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,152 @@
+import {
+  createKeys,
+  createECKeys,
+  createECKeysPEM,
+  createSigningKeys,
+  encryptToContainer,
+  encryptToContainerPEM,
+  decryptContainer,
+  decryptContainerPEM,
+  serializeContainer,
+  serializeContainerText,
+  parseContainer,
+  encryptForRecipients,
+  KeyPair,
+} from "../index";
+
+describe("Encrypted containers", () => {
+  let rsa: KeyPair;
+  let p256: KeyPair;
+  let x25519: KeyPair;
+
+  beforeAll(async () => {
+    [rsa, p256, x25519] = await Promise.all([
+      createKeys(),
+      createECKeys("ECDH-P256"),
+      createECKeys("X25519"),
+    ]);
+  });
+
+  describe("encryptToContainer / decryptContainer", () => {
+    it.each([
+      ["RSA-OAEP-256+A256GCM", () => rsa],
+      ["ECDH-P256+A256GCM", () => p256],
+      ["X25519+A256GCM", () => x25519],
+    ])("should round trip with the %s suite", async (suite, keys) => {
+      const message = "x".repeat(1000);
+
+      const container = await encryptToContainer(message, keys().publicKey);
+
+      expect(container.version).toBe(1);
+      expect(container.suite).toBe(suite);
+      expect(await decryptContainer(container, keys().privateKey)).toBe(
+        message
+      );
+    });
+
+    it("should use the same key id as multi-recipient envelopes", async () => {
+      const [container, envelope] = await Promise.all([
+        encryptToContainer("data", rsa.publicKey),
+        encryptForRecipients("data", [rsa.publicKey]),
+      ]);
+
+      expect(container.keyId).toMatch(/^[0-9a-f]{64}$/);
+      expect(container.keyId).toBe(envelope.recipients[0].keyId);
+    });
+
+    it("should reject a private key of another suite", async () => {
+      const container = await encryptToContainer("data", rsa.publicKey);
+
+      await expect(
+        decryptContainer(container, p256.privateKey)
+      ).rejects.toThrow(
+        "Container suite RSA-OAEP-256+A256GCM does not match the private key algorithm"
+      );
+    });
+
+    it("should reject keys without a container suite", async () => {
+      const ed25519 = await createSigningKeys("Ed25519");
+
+      await expect(
+        encryptToContainer("data", ed25519.publicKey)
+      ).rejects.toThrow("Unsupported key for encrypted containers: Ed25519");
+    });
+  });
+
+  describe("serializeContainer / parseContainer", () => {
+    it("should write a magic prefix, version and suite id", async () => {
+      const container = await encryptToContainer("data", x25519.publicKey);
+
+      const bytes = new Uint8Array(serializeContainer(container));
+
+      expect(new TextDecoder().decode(bytes.subarray(0, 4))).toBe("ACDX");
+      expect(Array.from(bytes.subarray(4, 7))).toEqual([1, 3, 32]);
+    });
+
+    it("should round trip binary and text forms", async () => {
+      const container = await encryptToContainer("Hello 🌍!", p256.publicKey);
+
+      const binary = serializeContainer(container);
+      const text = serializeContainerText(container);
+
+      expect(text).toMatch(/^acdx:[A-Za-z0-9_-]+$/);
+      expect(parseContainer(text)).toEqual(parseContainer(binary));
+      expect(await decryptContainer(binary, p256.privateKey)).toBe("Hello 🌍!");
+      expect(await decryptContainer(text, p256.privateKey)).toBe("Hello 🌍!");
+    });
+
+    it("should authenticate the header", async () => {
+      const container = await encryptToContainer("data", rsa.publicKey);
+      const tamperedKeyId = "00" + container.keyId.slice(2);
+
+      await expect(
+        decryptContainer({ ...container, keyId: tamperedKeyId }, rsa.privateKey)
+      ).rejects.toThrow();
+    });
+
+    it("should reject unknown versions and suites", async () => {
+      const bytes = new Uint8Array(
+        serializeContainer(await encryptToContainer("data", rsa.publicKey))
+      );
+
+      const withByte = (index: number, value: number) => {
+        const copy = bytes.slice();
+        copy[index] = value;
+        return copy;
+      };
+
+      expect(() => parseContainer(withByte(4, 2))).toThrow(
+        "Unsupported container version: 2"
+      );
+      expect(() => parseContainer(withByte(5, 99))).toThrow(
+        "Unsupported container suite: 99"
+      );
+      expect(() => parseContainer(withByte(0, 0))).toThrow(
+        "Invalid container: bad magic"
+      );
+      expect(() => parseContainer(bytes.subarray(0, 60))).toThrow(
+        "Invalid container: truncated data"
+      );
+      expect(() => parseContainer("not a container")).toThrow(
+        'Invalid container: missing "acdx:" prefix'
+      );
+    });
+  });
+
+  describe("PEM variants", () => {
+    it("should pick the key algorithm from the container header", async () => {
+      const keys = await createECKeysPEM("X25519");
+
+      const container = await encryptToContainerPEM(
+        "from PEM",
+        keys.publicKey,
+        "X25519"
+      );
+
+      expect(container.startsWith("acdx:")).toBe(true);
+      expect(await decryptContainerPEM(container, keys.privateKey)).toBe(
+        "from PEM"
+      );
+    });
+  });
+});
@@ -8,6 +8,7 @@ import {
   KeyPair,
   KeyPairPEM,
   EncryptedData,
+  getCapabilities,
 } from "../index";
 
 describe("Asymmetric Cryptography Utils (Web Crypto API)", () => {
@@ -324,5 +325,17 @@ describe("Asymmetric Cryptography Utils (Web Crypto API)", () => {
       expect(typeof crypto.subtle.encrypt).toBe("function");
       expect(typeof crypto.subtle.decrypt).toBe("function");
     });
+
+    it("should report the algorithms Web Crypto implements", async () => {
+      const capabilities = await getCapabilities();
+
+      expect(capabilities).toMatchObject({
+        "RSA-OAEP": "native",
+        "AES-GCM": "native",
+        Ed25519: "native",
+        X25519: "native",
+      });
+      expect(await getCapabilities()).toBe(capabilities);
+    });
   });
 });
@@ -0,0 +1,166 @@
+import {
+  ed25519PublicKey,
+  ed25519Sign,
+  ed25519Verify,
+  x25519,
+  x25519PublicKey,
+} from "../curve25519";
+
+const hex = (text: string) => new Uint8Array(Buffer.from(text, "hex"));
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+
+describe("Curve25519", () => {
+  describe("X25519 (RFC 7748)", () => {
+    it("should pass the section 5.2 test vectors", () => {
+      expect(
+        toHex(
+          x25519(
+            hex(
+              "a546e36bf0527c9d3b16154b82465edd62144c0ac1fc5a18506a2244ba449ac4"
+            ),
+            hex(
+              "e6db6867583030db3594c1a424b15f7c726624ec26b3353b10a903a6d0ab1c4c"
+            )
+          )
+        )
+      ).toBe(
+        "c3da55379de9c6908e94ea4df28d084f32eccf03491c71f754b4075577a28552"
+      );
+      expect(
+        toHex(
+          x25519(
+            hex(
+              "4b66e9d4d1b4673c5ad22691957d6af5c11b6421e0ea01d42ca4169e7918ba0d"
+            ),
+            hex(
+              "e5210f12786811d3f4b7959d0538ae2c31dbe7106fc03c3efc4cd549c715a493"
+            )
+          )
+        )
+      ).toBe(
+        "95cbde9476e8907d7aade45cb4b873f88b595a68799fa152e6f8f7647aac7957"
+      );
+    });
+
+    it("should pass the iterated test vectors", () => {
+      let k = hex(
+        "0900000000000000000000000000000000000000000000000000000000000000"
+      );
+      let u = k;
+      for (let i = 1; i <= 1000; i++) {
+        [k, u] = [x25519(k, u), k];
+        if (i === 1) {
+          expect(toHex(k)).toBe(
+            "422c8e7a6227d7bca1350b3e2bb7279f7897b87bb6854b783c60e80311ae3079"
+          );
+        }
+      }
+      expect(toHex(k)).toBe(
+        "684cf59ba83309552800ef566f2f4d3c1c3887c49360e3875f2eb94d99532c51"
+      );
+    });
+
+    it("should agree on the section 6.1 shared secret", () => {
+      const alice = hex(
+        "77076d0a7318a57d3c16c17251b26645df4c2f87ebc0992ab177fba51db92c2a"
+      );
+      const bob = hex(
+        "5dab087e624a8a4b79e17f8b83800ee66f3bb1292618b6fd1c2f8b27ff88e0eb"
+      );
+
+      expect(toHex(x25519PublicKey(alice))).toBe(
+        "8520f0098930a754748b7ddcb43ef75a0dbf3a0d26381af4eba4a98eaa9b4e6a"
+      );
+      expect(toHex(x25519PublicKey(bob))).toBe(
+        "de9edb7d7b7dc1b4d35b61c2ece435373f8343c85b78674dadfc7e146f882b4f"
+      );
+      expect(toHex(x25519(alice, x25519PublicKey(bob)))).toBe(
+        "4a5d9d5ba4ce2de1728e3bf480350f25e07e21c947d19e3376f09b3c1e161742"
+      );
+      expect(toHex(x25519(bob, x25519PublicKey(alice)))).toBe(
+        "4a5d9d5ba4ce2de1728e3bf480350f25e07e21c947d19e3376f09b3c1e161742"
+      );
+    });
+  });
+
+  describe("Ed25519 (RFC 8032)", () => {
+    // Section 7.1 tests 1 to 3: secret key, public key, message, signature
+    const vectors = [
+      [
+        "9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60",
+        "d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a",
+        "",
+        "e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b",
+      ],
+      [
+        "4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb",
+        "3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c",
+        "72",
+        "92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00",
+      ],
+      [
+        "c5aa8df43f9f837bedb7442f31dcb7b166d38535076f094b85ce3a2e0b4458f7",
+        "fc51cd8e6218a1a38da47ed00230f0580816ed13ba3303ac5deb911548908025",
+        "af82",
+        "6291d657deec24024827e69c3abe01a30ce548a284743a445e3680d7db5ac3ac18ff9b538d16f290ae67f760984dc6594a7c15e9716ed28dc027beceea1ec40a",
+      ],
+    ];
+
+    it.each(vectors)(
+      "should pass the test vector for secret key %s",
+      async (secretKey, publicKey, message, signature) => {
+        const derived = await ed25519PublicKey(hex(secretKey));
+
+        expect(toHex(derived)).toBe(publicKey);
+        expect(
+          toHex(await ed25519Sign(hex(message), hex(secretKey), derived))
+        ).toBe(signature);
+        expect(
+          await ed25519Verify(hex(signature), hex(message), hex(publicKey))
+        ).toBe(true);
+      }
+    );
+
+    it("should reject modified messages and signatures", async () => {
+      const [, publicKey, message, signature] = vectors[2];
+      const modified = hex(signature);
+      modified[10] ^= 1;
+
+      expect(
+        await ed25519Verify(hex(signature), hex(message + "00"), hex(publicKey))
+      ).toBe(false);
+      expect(await ed25519Verify(modified, hex(message), hex(publicKey))).toBe(
+        false
+      );
+      expect(
+        await ed25519Verify(hex(signature), hex(message), hex(vectors[0][1]))
+      ).toBe(false);
+      expect(
+        await ed25519Verify(
+          hex(signature).slice(1),
+          hex(message),
+          hex(publicKey)
+        )
+      ).toBe(false);
+    });
+
+    it("should reject a non-canonical S", async () => {
+      const [, publicKey, message, signature] = vectors[1];
+      // S + L encodes the same scalar, which RFC 8032 requires verifiers to reject
+      const L = hex(
+        "edd3f55c1a631258d69cf7a2def9de1400000000000000000000000000000010"
+      );
+      const forged = hex(signature);
+      let carry = 0;
+      for (let i = 0; i < 32; i++) {
+        const sum = forged[32 + i] + L[i] + carry;
+        forged[32 + i] = sum & 0xff;
+        carry = sum >> 8;
+      }
+
+      expect(await ed25519Verify(forged, hex(message), hex(publicKey))).toBe(
+        false
+      );
+    });
+  });
+});
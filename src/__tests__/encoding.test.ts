@@ -0,0 +1,249 @@
+import {
+  createKeys,
+  createKeysPEM,
+  createSigningKeysPEM,
+  encryptWithPubKey,
+  encryptWithPubKeyPEM,
+  decryptWithPrivateKeyPEM,
+  decryptBytesWithPrivateKey,
+  decryptBytesWithPrivateKeyPEM,
+  encryptHybridWithPubKey,
+  encryptHybridWithPubKeyPEM,
+  decryptHybridWithPrivateKeyPEM,
+  decryptHybridBytesWithPrivateKey,
+  decryptHybridBytesWithPrivateKeyPEM,
+  encryptForRecipients,
+  encryptForRecipientsPEM,
+  decryptForRecipientPEM,
+  decryptBytesForRecipient,
+  decryptBytesForRecipientPEM,
+  encryptToContainer,
+  decryptContainerBytes,
+  signWithPrivateKeyPEM,
+  verifyWithPubKeyPEM,
+  sign,
+  verify,
+  createSigningKeys,
+  KeyPair,
+  KeyPairPEM,
+} from "../index";
+
+// Not valid UTF-8, so a TextDecoder round trip would corrupt it
+const BINARY = new Uint8Array([0x00, 0xff, 0xfe, 0x80, 0xc3, 0x28, 0x7f, 0x01]);
+
+describe("Binary data and encodings", () => {
+  let keyPair: KeyPair;
+  let keyPairPEM: KeyPairPEM;
+
+  beforeAll(async () => {
+    [keyPair, keyPairPEM] = await Promise.all([createKeys(), createKeysPEM()]);
+  });
+
+  describe("byte-returning decryption", () => {
+    it("should round trip binary data with every envelope type", async () => {
+      const [encrypted, hybrid, recipients, container] = await Promise.all([
+        encryptWithPubKey(BINARY, keyPair.publicKey),
+        encryptHybridWithPubKey(BINARY, keyPair.publicKey),
+        encryptForRecipients(BINARY, [keyPair.publicKey]),
+        encryptToContainer(BINARY, keyPair.publicKey),
+      ]);
+
+      for (const decrypted of await Promise.all([
+        decryptBytesWithPrivateKey(encrypted, keyPair.privateKey),
+        decryptHybridBytesWithPrivateKey(hybrid, keyPair.privateKey),
+        decryptBytesForRecipient(recipients, keyPair.privateKey),
+        decryptContainerBytes(container, keyPair.privateKey),
+      ])) {
+        expect(decrypted).toBeInstanceOf(Uint8Array);
+        expect(Array.from(decrypted)).toEqual(Array.from(BINARY));
+      }
+    });
+
+    it("should round trip binary data with the PEM envelope functions", async () => {
+      const [hybrid, recipients] = await Promise.all([
+        encryptHybridWithPubKeyPEM(BINARY, keyPairPEM.publicKey, "hex"),
+        encryptForRecipientsPEM(BINARY, [keyPairPEM.publicKey]),
+      ]);
+
+      for (const decrypted of await Promise.all([
+        decryptHybridBytesWithPrivateKeyPEM(hybrid, keyPairPEM.privateKey),
+        decryptBytesForRecipientPEM(recipients, keyPairPEM.privateKey),
+      ])) {
+        expect(decrypted).toBeInstanceOf(Uint8Array);
+        expect(Array.from(decrypted)).toEqual(Array.from(BINARY));
+      }
+    });
+  });
+
+  describe("binary inputs", () => {
+    it("should only encrypt the bytes of an ArrayBufferView", async () => {
+      const view = new DataView(BINARY.buffer, 2, 4);
+
+      const encrypted = await encryptWithPubKey(view, keyPair.publicKey);
+
+      expect(
+        Array.from(
+          await decryptBytesWithPrivateKey(encrypted, keyPair.privateKey)
+        )
+      ).toEqual([0xfe, 0x80, 0xc3, 0x28]);
+    });
+
+    it("should accept Blobs", async () => {
+      const blob = new Blob([BINARY, "text"]);
+
+      const encrypted = await encryptWithPubKeyPEM(blob, keyPairPEM.publicKey);
+      const decrypted = await decryptBytesWithPrivateKeyPEM(
+        encrypted,
+        keyPairPEM.privateKey
+      );
+
+      expect(Array.from(decrypted)).toEqual([
+        ...Array.from(BINARY),
+        ...Array.from(new TextEncoder().encode("text")),
+      ]);
+    });
+
+    it("should sign and verify typed arrays", async () => {
+      const keys = await createSigningKeys("Ed25519");
+
+      const signature = await sign(BINARY.subarray(1), keys.privateKey);
+
+      expect(
+        await verify(
+          BINARY.subarray(1),
+          new Uint8Array(signature),
+          keys.publicKey
+        )
+      ).toBe(true);
+      expect(await verify(BINARY, signature, keys.publicKey)).toBe(false);
+    });
+  });
+
+  describe("PEM encodings", () => {
+    it.each([
+      ["base64", /^[A-Za-z0-9+/]+=*$/],
+      ["base64url", /^[A-Za-z0-9_-]+$/],
+      ["hex", /^[0-9a-f]+$/],
+    ] as const)("should encode with %s", async (encoding, pattern) => {
+      const encrypted = await encryptWithPubKeyPEM(
+        "encoded",
+        keyPairPEM.publicKey,
+        "RSA-OAEP",
+        encoding
+      );
+
+      expect(encrypted.encoding).toBe(encoding);
+      expect(encrypted.data).toMatch(pattern);
+      expect(
+        await decryptWithPrivateKeyPEM(encrypted, keyPairPEM.privateKey)
+      ).toBe("encoded");
+    });
+
+    it("should return raw bytes", async () => {
+      const encrypted = await encryptWithPubKeyPEM(
+        "raw",
+        keyPairPEM.publicKey,
+        "RSA-OAEP",
+        "raw"
+      );
+
+      expect(encrypted.data).toBeInstanceOf(ArrayBuffer);
+      expect(encrypted.data.byteLength).toBe(256);
+      expect(
+        await decryptWithPrivateKeyPEM(encrypted, keyPairPEM.privateKey)
+      ).toBe("raw");
+    });
+
+    it("should honor the encoding field when decrypting", async () => {
+      const encrypted = await encryptWithPubKeyPEM(
+        "data",
+        keyPairPEM.publicKey,
+        "RSA-OAEP",
+        "hex"
+      );
+
+      await expect(
+        decryptWithPrivateKeyPEM(
+          { data: encrypted.data, encoding: "base64" },
+          keyPairPEM.privateKey
+        )
+      ).rejects.toThrow();
+      await expect(
+        decryptWithPrivateKeyPEM(
+          { data: encrypted.data, encoding: "base32" as "hex" },
+          keyPairPEM.privateKey
+        )
+      ).rejects.toThrow("Unsupported encoding: base32");
+    });
+
+    it("should encode hybrid and multi-recipient envelope fields", async () => {
+      const hybrid = await encryptHybridWithPubKeyPEM(
+        BINARY,
+        keyPairPEM.publicKey,
+        "hex"
+      );
+      const recipients = await encryptForRecipientsPEM(
+        "shared",
+        [keyPairPEM.publicKey],
+        "RSA-OAEP",
+        "base64url"
+      );
+
+      expect(hybrid.encoding).toBe("hex");
+      expect(hybrid.iv).toMatch(/^[0-9a-f]{24}$/);
+      expect(recipients.tag).toMatch(/^[A-Za-z0-9_-]{22}$/);
+      expect(
+        await decryptHybridWithPrivateKeyPEM(
+          await encryptHybridWithPubKeyPEM(
+            "hybrid",
+            keyPairPEM.publicKey,
+            "base64url"
+          ),
+          keyPairPEM.privateKey
+        )
+      ).toBe("hybrid");
+      expect(
+        await decryptForRecipientPEM(recipients, keyPairPEM.privateKey)
+      ).toBe("shared");
+    });
+
+    it("should encode large payloads", async () => {
+      // Spans several base64 chunks, with a partial one at the end
+      const text = "0123456789abcdef".repeat(65536 + 3);
+
+      const hybrid = await encryptHybridWithPubKeyPEM(
+        text,
+        keyPairPEM.publicKey
+      );
+
+      expect(Buffer.from(hybrid.ciphertext, "base64").toString("base64")).toBe(
+        hybrid.ciphertext
+      );
+      expect(Buffer.from(hybrid.ciphertext, "base64").length).toBe(text.length);
+      expect(
+        await decryptHybridWithPrivateKeyPEM(hybrid, keyPairPEM.privateKey)
+      ).toBe(text);
+    });
+
+    it("should encode signatures", async () => {
+      const keys = await createSigningKeysPEM("ECDSA-P256");
+
+      const signature = await signWithPrivateKeyPEM(
+        BINARY,
+        keys.privateKey,
+        "ECDSA-P256",
+        "hex"
+      );
+
+      expect(signature.data).toMatch(/^[0-9a-f]{128}$/);
+      expect(
+        await verifyWithPubKeyPEM(
+          BINARY,
+          signature,
+          keys.publicKey,
+          "ECDSA-P256"
+        )
+      ).toBe(true);
+    });
+  });
+});
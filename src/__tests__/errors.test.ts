@@ -0,0 +1,297 @@
+import {
+  createKeys,
+  createKeysPEM,
+  createECKeys,
+  createECKeysPEM,
+  createSigningKeys,
+  encryptWithPubKey,
+  encryptWithPubKeyPEM,
+  decryptWithPrivateKey,
+  decryptWithPrivateKeyPEM,
+  encryptHybridWithPubKey,
+  decryptHybridWithPrivateKey,
+  exportPrivateKeyToPEM,
+  exportPublicKeyToPEM,
+  importPublicKeyFromPEM,
+  importPrivateKeyFromPEM,
+  importKeyFromJWKS,
+  parseContainer,
+  sign,
+  verify,
+  CryptoUtilsError,
+  InvalidKeyFormatError,
+  KeyTypeMismatchError,
+  PlaintextTooLargeError,
+  DecryptionFailedError,
+  UnsupportedAlgorithmError,
+  KeyPair,
+  KeyPairPEM,
+} from "../index";
+
+describe("Typed errors", () => {
+  let keyPair: KeyPair;
+  let keyPairPEM: KeyPairPEM;
+
+  beforeAll(async () => {
+    [keyPair, keyPairPEM] = await Promise.all([createKeys(), createKeysPEM()]);
+  });
+
+  it("should expose named subclasses of CryptoUtilsError", () => {
+    const error = new DecryptionFailedError("failed", { cause: "reason" });
+
+    expect(error).toBeInstanceOf(CryptoUtilsError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("DecryptionFailedError");
+    expect(error.cause).toBe("reason");
+  });
+
+  describe("PlaintextTooLargeError", () => {
+    it("should report the RSA-OAEP limit of the key", async () => {
+      await expect(
+        encryptWithPubKey("x".repeat(191), keyPair.publicKey)
+      ).rejects.toThrow(
+        new PlaintextTooLargeError(
+          "Plaintext is 191 bytes, but RSA-OAEP with this key can encrypt at most 190 bytes; use hybrid encryption for larger data"
+        )
+      );
+      await expect(
+        encryptWithPubKey("x".repeat(190), keyPair.publicKey)
+      ).resolves.toBeDefined();
+    });
+  });
+
+  describe("DecryptionFailedError", () => {
+    it("should be thrown for the wrong private key", async () => {
+      const other = await createKeys();
+      const encrypted = await encryptWithPubKey("data", keyPair.publicKey);
+
+      const error = await decryptWithPrivateKey(
+        encrypted,
+        other.privateKey
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(DecryptionFailedError);
+      expect(error.message).toBe(
+        "Decryption failed: wrong private key or corrupted ciphertext"
+      );
+      expect(error.cause).toBeDefined();
+    });
+
+    it("should be thrown for a modified ciphertext", async () => {
+      const encrypted = await encryptHybridWithPubKey(
+        "data",
+        keyPair.publicKey
+      );
+      new Uint8Array(encrypted.ciphertext)[0] ^= 1;
+
+      await expect(
+        decryptHybridWithPrivateKey(encrypted, keyPair.privateKey)
+      ).rejects.toBeInstanceOf(DecryptionFailedError);
+    });
+
+    it("should be thrown for malformed encoded data", async () => {
+      await expect(
+        decryptWithPrivateKeyPEM(
+          { data: "not base64!", encoding: "base64" },
+          keyPairPEM.privateKey
+        )
+      ).rejects.toThrow(DecryptionFailedError);
+      expect(() => parseContainer("acdx:%%%")).toThrow(DecryptionFailedError);
+    });
+  });
+
+  describe("KeyTypeMismatchError", () => {
+    it("should be thrown for a private key PEM passed as a public key", async () => {
+      await expect(
+        encryptWithPubKeyPEM("data", keyPairPEM.privateKey)
+      ).rejects.toThrow(
+        new KeyTypeMismatchError(
+          "Expected a PUBLIC KEY PEM but got PRIVATE KEY; pass the public key"
+        )
+      );
+      await expect(
+        importPrivateKeyFromPEM(keyPairPEM.publicKey)
+      ).rejects.toBeInstanceOf(KeyTypeMismatchError);
+    });
+
+    it("should be thrown for keys of the wrong kind", async () => {
+      const signing = await createSigningKeys("Ed25519");
+      const encrypted = await encryptWithPubKey("data", keyPair.publicKey);
+
+      await expect(
+        decryptWithPrivateKey(encrypted, keyPair.publicKey)
+      ).rejects.toThrow(
+        new KeyTypeMismatchError("Expected a private key but got a public key")
+      );
+      await expect(
+        encryptWithPubKey("data", signing.publicKey)
+      ).rejects.toThrow(
+        new KeyTypeMismatchError("Cannot encrypt with a Ed25519 key")
+      );
+      await expect(
+        decryptWithPrivateKey(encrypted, signing.privateKey)
+      ).rejects.toBeInstanceOf(KeyTypeMismatchError);
+      await expect(sign("data", keyPair.privateKey)).rejects.toBeInstanceOf(
+        KeyTypeMismatchError
+      );
+    });
+
+    it("should be thrown for keys without the usage", async () => {
+      const signing = await createSigningKeys("Ed25519");
+      const signature = await sign("data", signing.privateKey);
+      const [rsaPublicKey, ed25519PublicKey] = await Promise.all([
+        crypto.subtle.importKey(
+          "spki",
+          await crypto.subtle.exportKey("spki", keyPair.publicKey),
+          { name: "RSA-OAEP", hash: "SHA-256" },
+          false,
+          []
+        ),
+        crypto.subtle.importKey(
+          "spki",
+          await crypto.subtle.exportKey("spki", signing.publicKey),
+          { name: "Ed25519" },
+          false,
+          []
+        ),
+      ]);
+
+      const encrypted = encryptWithPubKey("data", rsaPublicKey);
+      const verified = verify("data", signature, ed25519PublicKey);
+
+      await expect(encrypted).rejects.toBeInstanceOf(KeyTypeMismatchError);
+      await expect(encrypted).rejects.toThrow(
+        "The RSA-OAEP key does not have the encrypt usage"
+      );
+      await expect(verified).rejects.toBeInstanceOf(KeyTypeMismatchError);
+      await expect(verified).rejects.toThrow(
+        "The Ed25519 key does not have the verify usage"
+      );
+    });
+
+    it("should be thrown when the PEM holds another key algorithm or curve", async () => {
+      const ec = await createECKeysPEM("ECDH-P256");
+
+      await expect(importPublicKeyFromPEM(ec.publicKey)).rejects.toThrow(
+        new KeyTypeMismatchError(
+          "The PEM contains an EC key, but RSA-OAEP expects an RSA key"
+        )
+      );
+      await expect(
+        importPublicKeyFromPEM(
+          ec.publicKey,
+          { name: "ECDH", namedCurve: "P-384" },
+          []
+        )
+      ).rejects.toThrow(
+        new KeyTypeMismatchError(
+          "The PEM contains a P-256 key, but P-384 was requested"
+        )
+      );
+    });
+
+    it("should be thrown when exporting a non-extractable key", async () => {
+      const keys = (await crypto.subtle.generateKey(
+        { name: "ECDH", namedCurve: "P-256" },
+        false,
+        ["deriveBits"]
+      )) as CryptoKeyPair;
+
+      await expect(exportPrivateKeyToPEM(keys.privateKey)).rejects.toThrow(
+        new KeyTypeMismatchError("The private ECDH key is not extractable")
+      );
+      await expect(
+        exportPublicKeyToPEM(keys.privateKey)
+      ).rejects.toBeInstanceOf(KeyTypeMismatchError);
+    });
+  });
+
+  describe("CryptoUtilsError", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should wrap other platform errors of sign", async () => {
+      const signing = await createSigningKeys("Ed25519");
+      const failure = new DOMException("Operation failed", "OperationError");
+      jest.spyOn(crypto.subtle, "sign").mockRejectedValueOnce(failure);
+
+      const signed = sign("data", signing.privateKey);
+
+      await expect(signed).rejects.toBeInstanceOf(CryptoUtilsError);
+      await expect(signed).rejects.toThrow(
+        "Failed to sign with the Ed25519 key"
+      );
+      await expect(signed).rejects.toHaveProperty("cause", failure);
+    });
+  });
+
+  describe("InvalidKeyFormatError", () => {
+    it.each([
+      ["a missing BEGIN line", "MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEA"],
+      [
+        "mismatched labels",
+        "-----BEGIN PUBLIC KEY-----\nAAAA\n-----END PRIVATE KEY-----",
+      ],
+      [
+        "a truncated body",
+        "-----BEGIN PUBLIC KEY-----\nMIIBIjANBgkqh\n-----END PUBLIC KEY-----",
+      ],
+      [
+        "a body that is not a key",
+        "-----BEGIN PUBLIC KEY-----\nAAAA\n-----END PUBLIC KEY-----",
+      ],
+      [
+        "an unsupported label",
+        "-----BEGIN CERTIFICATE REQUEST-----\nAAAA\n-----END CERTIFICATE REQUEST-----",
+      ],
+    ])("should be thrown for %s", async (_, pem) => {
+      await expect(importPublicKeyFromPEM(pem)).rejects.toBeInstanceOf(
+        InvalidKeyFormatError
+      );
+    });
+
+    it("should be thrown for a PEM with a cut-off DER body", async () => {
+      const body = keyPairPEM.publicKey
+        .replace(/-----[A-Z ]+-----/g, "")
+        .replace(/\s/g, "");
+      const truncated = `-----BEGIN PUBLIC KEY-----\n${body.slice(
+        0,
+        200
+      )}\n-----END PUBLIC KEY-----`;
+
+      await expect(importPublicKeyFromPEM(truncated)).rejects.toThrow(
+        new InvalidKeyFormatError("Invalid DER: element length exceeds data")
+      );
+    });
+
+    it("should be thrown for malformed JWKS JSON", async () => {
+      const error = await importKeyFromJWKS("{", "kid").catch((e) => e);
+
+      expect(error).toBeInstanceOf(InvalidKeyFormatError);
+      expect(error.message).toBe("Invalid JWKS: malformed JSON");
+      expect(error.cause).toBeInstanceOf(SyntaxError);
+    });
+  });
+
+  describe("UnsupportedAlgorithmError", () => {
+    it("should be thrown for unknown algorithms and key sizes", async () => {
+      await expect(createECKeys("X448" as "X25519")).rejects.toThrow(
+        new UnsupportedAlgorithmError(
+          "Unsupported elliptic-curve encryption algorithm: X448"
+        )
+      );
+      await expect(createKeys(100)).rejects.toBeInstanceOf(
+        UnsupportedAlgorithmError
+      );
+      await expect(
+        encryptWithPubKeyPEM(
+          "data",
+          keyPairPEM.publicKey,
+          "RSA-OAEP",
+          "base32" as "hex"
+        )
+      ).rejects.toBeInstanceOf(UnsupportedAlgorithmError);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  createKeys,
+  createKeysPEM,
+  encryptHybridWithPubKey,
+  encryptHybridWithPubKeyPEM,
+  decryptHybridWithPrivateKey,
+  decryptHybridWithPrivateKeyPEM,
+  KeyPair,
+  KeyPairPEM,
+} from "../index";
+
+describe("Hybrid encryption (RSA-OAEP + AES-GCM)", () => {
+  let keyPair: KeyPair;
+  let keyPairPEM: KeyPairPEM;
+
+  beforeAll(async () => {
+    keyPair = await createKeys(2048);
+    keyPairPEM = await createKeysPEM(2048);
+  });
+
+  describe("encryptHybridWithPubKey (CryptoKey)", () => {
+    it("should produce an envelope with all fields", async () => {
+      const encrypted = await encryptHybridWithPubKey(
+        "Hello, World!",
+        keyPair.publicKey
+      );
+
+      expect(encrypted.encryptedKey).toBeInstanceOf(ArrayBuffer);
+      expect(encrypted.encryptedKey.byteLength).toBe(256);
+      expect(encrypted.iv.byteLength).toBe(12);
+      expect(encrypted.ciphertext.byteLength).toBe(13);
+      expect(encrypted.tag.byteLength).toBe(16);
+    });
+
+    it("should encrypt payloads larger than the RSA limit", async () => {
+      const message = "x".repeat(100_000);
+      const encrypted = await encryptHybridWithPubKey(
+        message,
+        keyPair.publicKey
+      );
+      const decrypted = await decryptHybridWithPrivateKey(
+        encrypted,
+        keyPair.privateKey
+      );
+
+      expect(decrypted).toBe(message);
+    });
+
+    it("should handle ArrayBuffer input and empty strings", async () => {
+      const message = new TextEncoder().encode("binary input");
+      const encrypted = await encryptHybridWithPubKey(
+        message.buffer,
+        keyPair.publicKey
+      );
+      const empty = await encryptHybridWithPubKey("", keyPair.publicKey);
+
+      expect(
+        await decryptHybridWithPrivateKey(encrypted, keyPair.privateKey)
+      ).toBe("binary input");
+      expect(await decryptHybridWithPrivateKey(empty, keyPair.privateKey)).toBe(
+        ""
+      );
+    });
+  });
+
+  describe("decryptHybridWithPrivateKey (CryptoKey)", () => {
+    it("should reject a tampered ciphertext", async () => {
+      const encrypted = await encryptHybridWithPubKey(
+        "Hello, World!",
+        keyPair.publicKey
+      );
+      new Uint8Array(encrypted.ciphertext)[0] ^= 0xff;
+
+      await expect(
+        decryptHybridWithPrivateKey(encrypted, keyPair.privateKey)
+      ).rejects.toThrow();
+    });
+
+    it("should not decrypt with the wrong private key", async () => {
+      const otherKeyPair = await createKeys();
+      const encrypted = await encryptHybridWithPubKey(
+        "Hello, World!",
+        keyPair.publicKey
+      );
+
+      await expect(
+        decryptHybridWithPrivateKey(encrypted, otherKeyPair.privateKey)
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("PEM variants", () => {
+    it("should complete a PEM round trip with a large JSON document", async () => {
+      const document = JSON.stringify({
+        items: Array.from({ length: 500 }, (_, i) => ({ id: i, name: "🌍" })),
+      });
+      const encrypted = await encryptHybridWithPubKeyPEM(
+        document,
+        keyPairPEM.publicKey
+      );
+
+      expect(encrypted).toMatchObject({
+        encryptedKey: expect.any(String),
+        iv: expect.any(String),
+        ciphertext: expect.any(String),
+        tag: expect.any(String),
+        encoding: "base64",
+      });
+
+      const decrypted = await decryptHybridWithPrivateKeyPEM(
+        encrypted,
+        keyPairPEM.privateKey
+      );
+      expect(decrypted).toBe(document);
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import {
+  createKeys,
+  createECKeys,
+  encryptJWE,
+  decryptJWE,
+  decryptJWEBytes,
+  importKeyFromJWK,
+  calculateJWKThumbprint,
+  KeyPair,
+  JWK,
+  JWEHeader,
+} from "../index";
+
+// RFC 7516 appendix A.1: RSAES-OAEP and AES GCM
+const RFC7516_A1_KEY: JWK = {
+  kty: "RSA",
+  alg: "RSA-OAEP",
+  n: "oahUIoWw0K0usKNuOR6H4wkf4oBUXHTxRvgb48E-BVvxkeDNjbC4he8rUWcJoZmds2h7M70imEVhRU5djINXtqllXI4DFqcI1DgjT9LewND8MW2Krf3Spsk_ZkoFnilakGygTwpZ3uesH-PFABNIUYpOiN15dsQRkgr0vEhxN92i2asbOenSZeyaxziK72UwxrrKoExv6kc5twXTq4h-QChLOln0_mtUZwfsRaMStPs6mS6XrgxnxbWhojf663tuEQueGC-FCMfra36C9knDFGzKsNa7LZK2djYgyD3JR_MB_4NUJW_TqOQtwHYbxevoJArm-L5StowjzGy-_bq6Gw",
+  e: "AQAB",
+  d: "kLdtIj6GbDks_ApCSTYQtelcNttlKiOyPzMrXHeI-yk1F7-kpDxY4-WY5NWV5KntaEeXS1j82E375xxhWMHXyvjYecPT9fpwR_M9gV8n9Hrh2anTpTD93Dt62ypW3yDsJzBnTnrYu1iwWRgBKrEYY46qAZIrA2xAwnm2X7uGR1hghkqDp0Vqj3kbSCz1XyfCs6_LehBwtxHIyh8Ripy40p24moOAbgxVw3rxT_vlt3UVe4WO3JkJOzlpUf-KTVI2Ptgm-dARxTEtE-id-4OJr0h-K-VFs3VSndVTIznSxfyrj8ILL6MG_Uv8YAu7VILSB3lOW085-4qE3DzgrTjgyQ",
+  p: "1r52Xk46c-LsfB5P442p7atdPUrxQSy4mti_tZI3Mgf2EuFVbUoDBvaRQ-SWxkbkmoEzL7JXroSBjSrK3YIQgYdMgyAEPTPjXv_hI2_1eTSPVZfzL0lffNn03IXqWF5MDFuoUYE0hzb2vhrlN_rKrbfDIwUbTrjjgieRbwC6Cl0",
+  q: "wLb35x7hmQWZsWJmB_vle87ihgZ19S8lBEROLIsZG4ayZVe9Hi9gDVCOBmUDdaDYVTSNx_8Fyw1YYa9XGrGnDew00J28cRUoeBB_jKI1oma0Orv1T9aXIWxKwd4gvxFImOWr3QRL9KEBRzk2RatUBnmDZJTIAfwTs0g68UZHvtc",
+  dp: "ZK-YwE7diUh0qR1tR7w8WHtolDx3MZ_OTowiFvgfeQ3SiresXjm9gZ5KLhMXvo-uz-KUJWDxS5pFQ_M0evdo1dKiRTjVw_x4NyqyXPM5nULPkcpU827rnpZzAJKpdhWAgqrXGKAECQH0Xt4taznjnd_zVpAmZZq60WPMBMfKcuE",
+  dq: "Dq0gfgJ1DdFGXiLvQEZnuKEN0UUmsJBxkjydc3j4ZYdBiMRAy86x0vHCjywcMlYYg4yoC4YZa9hNVcsjqA3FeiL19rk8g6Qn29Tt0cj8qqyFpz9vNDBUfCAiJVeESOjJDZPYHdHY8v1b-o-Z2X5tvLx-TCekf7oxyeKDUqKWjis",
+  qi: "VIMpMYbPf47dT1w_zDUXfPimsSegnMOA1zTaX7aGk_8urY6R8-ZW1FxU7AlWAyLWybqq6t16VFd7hQd0y6flUK4SlOydB61gwanOsXGOAOv82cHq0E3eL4HrtZkUuKvnPrMnsUUFlfUdybVzxyjz9JF_XyaY14ardLSjf4L_FNY",
+};
+
+const RFC7516_A1_JWE = [
+  "eyJhbGciOiJSU0EtT0FFUCIsImVuYyI6IkEyNTZHQ00ifQ",
+  "OKOawDo13gRp2ojaHV7LFpZcgV7T6DVZKTyKOMTYUmKoTCVJRgckCL9kiMT03JGeipsEdY3mx_etLbbWSrFr05kLzcSr4qKAq7YN7e9jwQRb23nfa6c9d-StnImGyFDbSv04uVuxIp5Zms1gNxKKK2Da14B8S4rzVRltdYwam_lDp5XnZAYpQdb76FdIKLaVmqgfwX7XWRxv2322i-vDxRfqNzo_tETKzpVLzfiwQyeyPGLBIO56YJ7eObdv0je81860ppamavo35UgoRdbYaBcoh9QcfylQr66oc6vFWXRcZ_ZT2LawVCWTIy3brGPi6UklfCpIMfIjf7iGdXKHzg",
+  "48V1_ALb6US04U3b",
+  "5eym8TW_c8SuK0ltJ3rpYIzOeDQz7TALvtu6UG9oMo4vpzs9tX_EFShS8iB7j6jiSdiwkIr3ajwQzaBtQD_A",
+  "XFBoMYUZodetZdvTiFvSkQ",
+].join(".");
+
+function decodeHeader(jwe: string): Record<string, unknown> {
+  return JSON.parse(
+    Buffer.from(jwe.split(".")[0], "base64url").toString("utf8")
+  );
+}
+
+describe("JWE", () => {
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    keyPair = await createKeys();
+  });
+
+  describe("RFC 7516 test vectors", () => {
+    it("should decrypt the appendix A.1 example", async () => {
+      const privateKey = await importKeyFromJWK(RFC7516_A1_KEY);
+
+      expect(await decryptJWE(RFC7516_A1_JWE, privateKey)).toBe(
+        "The true sign of intelligence is not knowledge but imagination."
+      );
+    });
+
+    it("should reject the appendix A.1 example with a modified header", async () => {
+      const privateKey = await importKeyFromJWK(RFC7516_A1_KEY);
+      const [, ...rest] = RFC7516_A1_JWE.split(".");
+      const header = Buffer.from(
+        JSON.stringify({ alg: "RSA-OAEP", enc: "A256GCM", kid: "tampered" })
+      ).toString("base64url");
+
+      await expect(
+        decryptJWE([header, ...rest].join("."), privateKey)
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("compact serialization", () => {
+    it("should round trip with RSA-OAEP-256 and a thumbprint kid", async () => {
+      const jwe = await encryptJWE("Hello, JOSE!", keyPair.publicKey);
+
+      expect(jwe.split(".")).toHaveLength(5);
+      expect(decodeHeader(jwe)).toEqual({
+        alg: "RSA-OAEP-256",
+        enc: "A256GCM",
+        kid: await calculateJWKThumbprint(keyPair.publicKey),
+      });
+      expect(await decryptJWE(jwe, keyPair.privateKey)).toBe("Hello, JOSE!");
+    });
+
+    it("should use a custom kid and extra protected header parameters", async () => {
+      const jwe = await encryptJWE(
+        new TextEncoder().encode('{"a":1}').buffer,
+        [keyPair.publicKey],
+        { kid: "2024-q1", header: { cty: "json" } }
+      );
+
+      expect(decodeHeader(jwe)).toMatchObject({ kid: "2024-q1", cty: "json" });
+      expect(await decryptJWE(jwe, keyPair.privateKey)).toBe('{"a":1}');
+    });
+
+    it("should round trip binary payloads", async () => {
+      // Not valid UTF-8, so a TextDecoder round trip would corrupt it
+      const binary = new Uint8Array([0x00, 0xff, 0xfe, 0x80, 0xc3, 0x28]);
+      const jwe = await encryptJWE(binary, keyPair.publicKey);
+
+      const decrypted = await decryptJWEBytes(jwe, keyPair.privateKey);
+
+      expect(decrypted).toBeInstanceOf(Uint8Array);
+      expect(Array.from(decrypted)).toEqual(Array.from(binary));
+    });
+
+    it("should reject malformed or multi-recipient compact JWEs", async () => {
+      const other = await createKeys();
+
+      await expect(
+        encryptJWE("data", [keyPair.publicKey, other.publicKey])
+      ).rejects.toThrow(
+        "JWE compact serialization requires exactly one recipient key"
+      );
+      await expect(decryptJWE("a.b.c", keyPair.privateKey)).rejects.toThrow(
+        "Invalid JWE: compact serialization must have 5 parts"
+      );
+    });
+  });
+
+  describe("JSON serialization", () => {
+    it("should encrypt for several recipients", async () => {
+      const other = await createKeys();
+
+      const jwe = await encryptJWE(
+        "shared",
+        [keyPair.publicKey, other.publicKey],
+        { serialization: "json" }
+      );
+
+      expect(jwe.recipients).toHaveLength(2);
+      expect(jwe.recipients[1].header).toEqual({
+        alg: "RSA-OAEP-256",
+        kid: await calculateJWKThumbprint(other.publicKey),
+      });
+      expect(await decryptJWE(jwe, keyPair.privateKey)).toBe("shared");
+      expect(await decryptJWE(jwe, other.privateKey)).toBe("shared");
+    });
+
+    it("should decrypt recipients that use different algs", async () => {
+      const { n, e, kty } = RFC7516_A1_KEY;
+      const sha1Key = await importKeyFromJWK(RFC7516_A1_KEY);
+      const sha1PublicKey = await importKeyFromJWK({
+        kty,
+        n,
+        e,
+        alg: "RSA-OAEP",
+      });
+
+      const jwe = await encryptJWE(
+        "mixed",
+        [sha1PublicKey, keyPair.publicKey],
+        { serialization: "json" }
+      );
+
+      expect(jwe.recipients.map((recipient) => recipient.header?.alg)).toEqual([
+        "RSA-OAEP",
+        "RSA-OAEP-256",
+      ]);
+      expect(await decryptJWE(jwe, keyPair.privateKey)).toBe("mixed");
+      expect(await decryptJWE(jwe, sha1Key)).toBe("mixed");
+    });
+
+    it("should decrypt the flattened serialization", async () => {
+      const jwe = await encryptJWE("flat", keyPair.publicKey, {
+        serialization: "json",
+      });
+      const { recipients, ...rest } = jwe;
+
+      expect(
+        await decryptJWE({ ...rest, ...recipients[0] }, keyPair.privateKey)
+      ).toBe("flat");
+    });
+
+    it("should fail for keys that are not recipients", async () => {
+      const outsider = await createKeys();
+      const jwe = await encryptJWE("data", keyPair.publicKey, {
+        serialization: "json",
+      });
+
+      await expect(decryptJWE(jwe, outsider.privateKey)).rejects.toThrow(
+        "No JWE recipient can be decrypted with this private key"
+      );
+    });
+  });
+
+  describe("header validation", () => {
+    it("should reject unsupported parameters", async () => {
+      const jwe = await encryptJWE("data", keyPair.publicKey, {
+        serialization: "json",
+      });
+      // The headers hold values JWEHeader does not allow, such as alg RSA1_5
+      const withHeader = (header: Record<string, unknown>) => ({
+        ...jwe,
+        recipients: [{ ...jwe.recipients[0], header: header as JWEHeader }],
+      });
+
+      await expect(
+        decryptJWE(withHeader({ alg: "RSA1_5" }), keyPair.privateKey)
+      ).rejects.toThrow("Unsupported JWE alg: RSA1_5");
+      await expect(
+        decryptJWE(
+          withHeader({ alg: "RSA-OAEP-256", zip: "DEF" }),
+          keyPair.privateKey
+        )
+      ).rejects.toThrow("Unsupported JWE header parameters: zip or crit");
+      await expect(
+        decryptJWE(
+          {
+            ...jwe,
+            protected: Buffer.from('{"enc":"A128GCM"}').toString("base64url"),
+          },
+          keyPair.privateKey
+        )
+      ).rejects.toThrow("Unsupported JWE enc: A128GCM");
+    });
+
+    it("should reject parameters that appear in more than one header", async () => {
+      const jwe = await encryptJWE("data", keyPair.publicKey, {
+        serialization: "json",
+      });
+      const message =
+        "Invalid JWE: header parameter enc appears in more than one header";
+
+      await expect(
+        decryptJWE(
+          { ...jwe, unprotected: { enc: "A256GCM" } },
+          keyPair.privateKey
+        )
+      ).rejects.toThrow(message);
+      await expect(
+        decryptJWE(
+          {
+            ...jwe,
+            recipients: [
+              {
+                ...jwe.recipients[0],
+                header: { ...jwe.recipients[0].header, enc: "A256GCM" },
+              },
+            ],
+          },
+          keyPair.privateKey
+        )
+      ).rejects.toThrow(message);
+      await expect(
+        decryptJWE(
+          { ...jwe, unprotected: { kid: "shared" } },
+          keyPair.privateKey
+        )
+      ).rejects.toThrow(
+        "Invalid JWE: header parameter kid appears in more than one header"
+      );
+    });
+
+    it("should keep protected parameters out of the recipient headers", async () => {
+      const jwe = await encryptJWE("data", keyPair.publicKey, {
+        serialization: "json",
+        header: { kid: "custom" },
+      });
+
+      expect(jwe.recipients[0].header).toEqual({ alg: "RSA-OAEP-256" });
+      expect(await decryptJWE(jwe, keyPair.privateKey)).toBe("data");
+    });
+
+    it("should reject a key whose hash does not match alg", async () => {
+      const sha1Key = await importKeyFromJWK(RFC7516_A1_KEY);
+      const jwe = await encryptJWE("data", keyPair.publicKey);
+
+      await expect(decryptJWE(jwe, sha1Key)).rejects.toThrow(
+        "JWE alg RSA-OAEP-256 does not match the private key algorithm"
+      );
+    });
+
+    it("should require RSA-OAEP keys", async () => {
+      const ec = await createECKeys();
+
+      await expect(encryptJWE("data", ec.publicKey)).rejects.toThrow(
+        "JWE requires an RSA-OAEP key with SHA-1 or SHA-256"
+      );
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  createKeys,
+  createKeysJWK,
+  createECKeys,
+  createSigningKeys,
+  exportKeyToJWK,
+  importKeyFromJWK,
+  calculateJWKThumbprint,
+  createJWKS,
+  importKeyFromJWKS,
+  encryptWithPubKey,
+  decryptWithPrivateKey,
+  sign,
+  verify,
+  exportPublicKeyToPEM,
+  importPublicKeyFromPEM,
+  JWK,
+} from "../index";
+
+// RFC 7638 section 3.1
+const RFC7638_KEY: JWK = {
+  kty: "RSA",
+  n: "0vx7agoebGcQSuuPiLJXZptN9nndrQmbXEps2aiAFbWhM78LhWx4cbbfAAtVT86zwu1RK7aPFFxuhDR1L6tSoc_BJECPebWKRXjBZCiFV4n3oknjhMstn64tZ_2W-5JsGY4Hc5n9yBXArwl93lqt7_RN5w6Cf0h4QyQ5v-65YGjQR0_FDW2QvzqY368QQMicAtaSqzs8KJZgnYb9c7d0zgdAZHzu6qMQvRL5hajrn1n91CbOpbISD08qNLyrdkt-bFTWhAI4vMQFh6WeZu0fM4lFd2NcRwr3XPksINHaQ-G_xBniIqbw0Ls1jF44-csFCur-kEgU8awapJzKnqDKgw",
+  e: "AQAB",
+  alg: "RS256",
+  kid: "2011-04-29",
+};
+
+// RFC 8037 appendix A.3
+const RFC8037_KEY: JWK = {
+  kty: "OKP",
+  crv: "Ed25519",
+  x: "11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo",
+};
+
+describe("JSON Web Keys", () => {
+  describe("calculateJWKThumbprint", () => {
+    it("should match the RFC 7638 example", async () => {
+      expect(await calculateJWKThumbprint(RFC7638_KEY)).toBe(
+        "NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs"
+      );
+    });
+
+    it("should match the RFC 8037 OKP example", async () => {
+      expect(await calculateJWKThumbprint(RFC8037_KEY)).toBe(
+        "kPrK_qmxVWaYVA9wwBF6Iuo3vVzz7TxHCTwXBygrS4k"
+      );
+    });
+
+    it("should give the same thumbprint for a public key and its private key", async () => {
+      const keys = await createKeys();
+
+      const [publicThumbprint, privateThumbprint] = await Promise.all([
+        calculateJWKThumbprint(keys.publicKey),
+        calculateJWKThumbprint(keys.privateKey),
+      ]);
+
+      expect(publicThumbprint).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(privateThumbprint).toBe(publicThumbprint);
+    });
+
+    it("should support other digests", async () => {
+      expect(await calculateJWKThumbprint(RFC8037_KEY, "SHA-512")).toHaveLength(
+        86
+      );
+    });
+
+    it("should reject unknown key types and missing members", async () => {
+      await expect(calculateJWKThumbprint({ kty: "XYZ" })).rejects.toThrow(
+        "Unsupported JWK key type: XYZ"
+      );
+      await expect(
+        calculateJWKThumbprint({ kty: "RSA", e: "AQAB" })
+      ).rejects.toThrow("JWK is missing the required member: n");
+    });
+  });
+
+  describe("createKeysJWK", () => {
+    it("should create a JWK pair sharing the public key thumbprint", async () => {
+      const keys = await createKeysJWK();
+
+      expect(keys.publicKey).toMatchObject({ kty: "RSA", alg: "RSA-OAEP-256" });
+      expect(keys.privateKey.d).toBeDefined();
+      expect(keys.publicKey.kid).toBe(
+        await calculateJWKThumbprint(keys.publicKey)
+      );
+      expect(keys.privateKey.kid).toBe(keys.publicKey.kid);
+    });
+
+    it("should produce keys usable with encrypt/decrypt", async () => {
+      const keys = await createKeysJWK();
+      const [publicKey, privateKey] = await Promise.all([
+        importKeyFromJWK(keys.publicKey),
+        importKeyFromJWK(keys.privateKey),
+      ]);
+
+      const encrypted = await encryptWithPubKey("Hello, JWK!", publicKey);
+
+      expect(await decryptWithPrivateKey(encrypted, privateKey)).toBe(
+        "Hello, JWK!"
+      );
+    });
+  });
+
+  describe("exportKeyToJWK / importKeyFromJWK", () => {
+    it("should round trip elliptic-curve encryption keys", async () => {
+      for (const algorithm of ["ECDH-P256", "X25519"] as const) {
+        const keys = await createECKeys(algorithm);
+        const publicJWK = await exportKeyToJWK(keys.publicKey);
+        const privateJWK = await exportKeyToJWK(keys.privateKey);
+
+        expect(publicJWK.alg).toBe("ECDH-ES");
+
+        const encrypted = await encryptWithPubKey(
+          "EC",
+          await importKeyFromJWK(publicJWK)
+        );
+        expect(
+          await decryptWithPrivateKey(
+            encrypted,
+            await importKeyFromJWK(privateJWK)
+          )
+        ).toBe("EC");
+      }
+    });
+
+    it("should round trip signing keys", async () => {
+      for (const algorithm of [
+        "RSA-PSS",
+        "ECDSA-P256",
+        "ECDSA-P384",
+        "Ed25519",
+      ] as const) {
+        const keys = await createSigningKeys(algorithm);
+        const privateKey = await importKeyFromJWK(
+          await exportKeyToJWK(keys.privateKey)
+        );
+        const publicKey = await importKeyFromJWK(
+          await exportKeyToJWK(keys.publicKey)
+        );
+
+        const signature = await sign("signed", privateKey);
+
+        expect(await verify("signed", signature, publicKey)).toBe(true);
+      }
+    });
+
+    it("should use a custom kid", async () => {
+      const keys = await createKeys();
+
+      expect((await exportKeyToJWK(keys.publicKey, "my-key")).kid).toBe(
+        "my-key"
+      );
+    });
+
+    it("should pick ECDSA for EC keys marked for signatures", async () => {
+      const keys = await createSigningKeys("ECDSA-P256");
+      const { alg, ...jwk } = await exportKeyToJWK(keys.publicKey);
+
+      const imported = await importKeyFromJWK({ ...jwk, use: "sig" });
+
+      expect(alg).toBe("ES256");
+      expect(imported.algorithm.name).toBe("ECDSA");
+      expect(imported.usages).toEqual(["verify"]);
+    });
+
+    it("should import the RFC 7638 key with explicit usages", async () => {
+      const key = await importKeyFromJWK({ ...RFC7638_KEY, alg: "PS256" }, [
+        "verify",
+      ]);
+
+      expect(key.algorithm.name).toBe("RSA-PSS");
+    });
+
+    it("should pick default usages when key_ops is missing", async () => {
+      const ec = await createECKeys();
+      const { key_ops, ...privateJWK } = await exportKeyToJWK(ec.privateKey);
+
+      const [rsaKey, ecPrivateKey, okpKey] = await Promise.all([
+        importKeyFromJWK({ ...RFC7638_KEY, alg: "RSA-OAEP-256" }),
+        importKeyFromJWK(privateJWK),
+        importKeyFromJWK(RFC8037_KEY),
+      ]);
+
+      expect(key_ops).toEqual(["deriveBits"]);
+      expect(rsaKey.usages).toEqual(["encrypt"]);
+      expect(ecPrivateKey.usages).toEqual(["deriveBits"]);
+      expect(okpKey.usages).toEqual(["verify"]);
+    });
+
+    it("should reject unsupported JWKs", async () => {
+      await expect(
+        importKeyFromJWK({ ...RFC7638_KEY, alg: "RS256" })
+      ).rejects.toThrow("Unsupported JWK: kty=RSA, alg=RS256");
+      await expect(
+        importKeyFromJWK({ kty: "OKP", crv: "X448", x: "AA" })
+      ).rejects.toThrow("Unsupported JWK");
+      await expect(importKeyFromJWK({ kty: "EC" })).rejects.toThrow(
+        "Unsupported JWK"
+      );
+    });
+  });
+
+  describe("createJWKS / importKeyFromJWKS", () => {
+    it("should build a key set and pick a key by kid", async () => {
+      const rsa = await createKeys();
+      const ec = await createECKeys();
+
+      const jwks = await createJWKS([
+        rsa.publicKey,
+        ec.publicKey,
+        RFC7638_KEY,
+        RFC8037_KEY,
+      ]);
+
+      expect(jwks.keys.map((key) => key.kid)).toEqual([
+        await calculateJWKThumbprint(rsa.publicKey),
+        await calculateJWKThumbprint(ec.publicKey),
+        "2011-04-29",
+        "kPrK_qmxVWaYVA9wwBF6Iuo3vVzz7TxHCTwXBygrS4k",
+      ]);
+
+      const imported = await importKeyFromJWKS(
+        JSON.stringify(jwks),
+        jwks.keys[1].kid as string
+      );
+      expect(imported.algorithm.name).toBe("ECDH");
+    });
+
+    it("should reject unknown kids and malformed sets", async () => {
+      await expect(
+        importKeyFromJWKS({ keys: [RFC7638_KEY] }, "missing")
+      ).rejects.toThrow('No key with kid "missing" in JWKS');
+      await expect(importKeyFromJWKS("{}", "missing")).rejects.toThrow(
+        "Invalid JWKS: missing keys array"
+      );
+    });
+  });
+
+  describe("PEM helpers", () => {
+    it("should export and import public key PEMs", async () => {
+      const keys = await createSigningKeys("Ed25519");
+
+      const pem = await exportPublicKeyToPEM(keys.publicKey);
+      const imported = await importPublicKeyFromPEM(pem, { name: "Ed25519" }, [
+        "verify",
+      ]);
+
+      expect(pem).toContain("-----BEGIN PUBLIC KEY-----");
+      expect(await calculateJWKThumbprint(imported)).toBe(
+        await calculateJWKThumbprint(keys.publicKey)
+      );
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import {
+  createKeysPEM,
+  createSigningKeysPEM,
+  encryptWithPubKeyPEM,
+  decryptWithPrivateKeyPEM,
+  encryptManyWithPubKeyPEM,
+  decryptManyWithPrivateKeyPEM,
+  decryptManyBytesWithPrivateKeyPEM,
+  signWithPrivateKeyPEM,
+  verifyWithPubKeyPEM,
+  configureKeyCache,
+  clearKeyCache,
+  CryptoUtilsError,
+  DecryptionFailedError,
+  KeyPairPEM,
+} from "../index";
+
+describe("Key cache", () => {
+  let keys: KeyPairPEM;
+  let importKey: jest.SpyInstance;
+
+  beforeAll(async () => {
+    keys = await createKeysPEM(2048);
+  });
+
+  beforeEach(() => {
+    clearKeyCache();
+    configureKeyCache({});
+    importKey = jest.spyOn(crypto.subtle, "importKey");
+  });
+
+  afterEach(() => {
+    importKey.mockRestore();
+  });
+
+  afterAll(() => {
+    clearKeyCache();
+  });
+
+  it("should import a PEM key once for repeated calls", async () => {
+    for (let i = 0; i < 3; i++) {
+      const encrypted = await encryptWithPubKeyPEM("data", keys.publicKey);
+      expect(await decryptWithPrivateKeyPEM(encrypted, keys.privateKey)).toBe(
+        "data"
+      );
+    }
+
+    expect(importKey).toHaveBeenCalledTimes(2);
+  });
+
+  it("should share one import between concurrent calls", async () => {
+    await Promise.all(
+      Array.from({ length: 4 }, () => encryptWithPubKeyPEM("x", keys.publicKey))
+    );
+
+    expect(importKey).toHaveBeenCalledTimes(1);
+  });
+
+  it("should cache keys per algorithm parameters", async () => {
+    await encryptWithPubKeyPEM("x", keys.publicKey);
+    await encryptWithPubKeyPEM("x", keys.publicKey, "RSA-OAEP", "base64", {
+      hash: "SHA-384",
+    });
+    await encryptWithPubKeyPEM("x", keys.publicKey);
+
+    expect(importKey).toHaveBeenCalledTimes(2);
+  });
+
+  it("should cache signing keys", async () => {
+    const signing = await createSigningKeysPEM("Ed25519");
+    importKey.mockClear();
+
+    const signature = await signWithPrivateKeyPEM(
+      "data",
+      signing.privateKey,
+      "Ed25519"
+    );
+    await signWithPrivateKeyPEM("data", signing.privateKey, "Ed25519");
+    expect(
+      await verifyWithPubKeyPEM("data", signature, signing.publicKey, "Ed25519")
+    ).toBe(true);
+    await verifyWithPubKeyPEM("data", signature, signing.publicKey, "Ed25519");
+
+    expect(importKey).toHaveBeenCalledTimes(2);
+  });
+
+  it("should drop the least recently used key", async () => {
+    const other = await createKeysPEM(2048);
+    configureKeyCache({ maxSize: 2 });
+
+    await encryptWithPubKeyPEM("x", keys.publicKey); // import 1
+    await encryptWithPubKeyPEM("x", other.publicKey); // import 2
+    await encryptWithPubKeyPEM("x", keys.publicKey); // hit
+    await decryptWithPrivateKeyPEM(
+      await encryptWithPubKeyPEM("x", keys.publicKey), // hit
+      keys.privateKey // import 3, drops other.publicKey
+    );
+    await encryptWithPubKeyPEM("x", keys.publicKey); // hit
+    await encryptWithPubKeyPEM("x", other.publicKey); // import 4
+
+    expect(importKey).toHaveBeenCalledTimes(4);
+  });
+
+  it("should not cache keys when turned off", async () => {
+    configureKeyCache({ maxSize: 0 });
+
+    await encryptWithPubKeyPEM("x", keys.publicKey);
+    await encryptWithPubKeyPEM("x", keys.publicKey);
+
+    expect(importKey).toHaveBeenCalledTimes(2);
+    expect(() => configureKeyCache({ maxSize: -1 })).toThrow(
+      new CryptoUtilsError("Invalid key cache size: -1")
+    );
+  });
+
+  it("should not cache failed imports", async () => {
+    const encrypted = await encryptWithPubKeyPEM("x", keys.publicKey);
+    importKey.mockRejectedValueOnce(new Error("Busy"));
+
+    await expect(
+      decryptWithPrivateKeyPEM(encrypted, keys.privateKey)
+    ).rejects.toBeInstanceOf(CryptoUtilsError);
+    expect(await decryptWithPrivateKeyPEM(encrypted, keys.privateKey)).toBe(
+      "x"
+    );
+    expect(importKey).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("Batch encryption", () => {
+  let keys: KeyPairPEM;
+
+  beforeAll(async () => {
+    keys = await createKeysPEM(2048);
+  });
+
+  it("should encrypt and decrypt arrays in order", async () => {
+    const messages = Array.from({ length: 20 }, (_, i) => `message ${i}`);
+
+    const encrypted = await encryptManyWithPubKeyPEM(messages, keys.publicKey);
+
+    expect(encrypted).toHaveLength(20);
+    expect(
+      await decryptManyWithPrivateKeyPEM(encrypted, keys.privateKey)
+    ).toEqual(messages);
+  });
+
+  it("should decrypt binary items as bytes", async () => {
+    // Not valid UTF-8, so a TextDecoder round trip would corrupt them
+    const items = [
+      new Uint8Array([0x00, 0xff, 0xfe]),
+      new Uint8Array([0x80, 0xc3, 0x28]),
+    ];
+
+    const encrypted = await encryptManyWithPubKeyPEM(items, keys.publicKey);
+    const decrypted = await decryptManyBytesWithPrivateKeyPEM(
+      encrypted,
+      keys.privateKey
+    );
+
+    expect(decrypted.map((bytes) => Array.from(bytes))).toEqual(
+      items.map((bytes) => Array.from(bytes))
+    );
+  });
+
+  it("should import the key once with the cache off", async () => {
+    configureKeyCache({ maxSize: 0 });
+    const importKey = jest.spyOn(crypto.subtle, "importKey");
+
+    try {
+      const encrypted = await encryptManyWithPubKeyPEM(
+        ["a", "b", "c"],
+        keys.publicKey,
+        "RSA-OAEP",
+        "raw"
+      );
+      await decryptManyWithPrivateKeyPEM(encrypted, keys.privateKey);
+
+      expect(importKey).toHaveBeenCalledTimes(2);
+    } finally {
+      importKey.mockRestore();
+      configureKeyCache({});
+    }
+  });
+
+  it("should run at most `concurrency` items at a time", async () => {
+    const encrypt = crypto.subtle.encrypt.bind(crypto.subtle);
+    let running = 0;
+    let peak = 0;
+    const spy = jest
+      .spyOn(crypto.subtle, "encrypt")
+      .mockImplementation(async (...args) => {
+        peak = Math.max(peak, ++running);
+        try {
+          return await encrypt(...args);
+        } finally {
+          running--;
+        }
+      });
+
+    try {
+      await encryptManyWithPubKeyPEM(
+        Array.from({ length: 10 }, String),
+        keys.publicKey,
+        "RSA-OAEP",
+        "base64",
+        { concurrency: 3 }
+      );
+
+      expect(spy).toHaveBeenCalledTimes(10);
+      expect(peak).toBe(3);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("should stop at the first failure", async () => {
+    const encrypted = await encryptManyWithPubKeyPEM(
+      ["a", "b", "c"],
+      keys.publicKey
+    );
+
+    await expect(
+      decryptManyWithPrivateKeyPEM(
+        [encrypted[0], { data: "AAAA", encoding: "base64" }, encrypted[2]],
+        keys.privateKey
+      )
+    ).rejects.toBeInstanceOf(DecryptionFailedError);
+    await expect(
+      encryptManyWithPubKeyPEM(["a"], keys.publicKey, "RSA-OAEP", "base64", {
+        concurrency: 0,
+      })
+    ).rejects.toThrow(new CryptoUtilsError("Invalid concurrency: 0"));
+  });
+});
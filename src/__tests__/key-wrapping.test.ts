@@ -0,0 +1,166 @@
+import {
+  createKeys,
+  createSigningKeys,
+  wrapPrivateKey,
+  unwrapPrivateKey,
+  encryptWithPubKey,
+  decryptWithPrivateKey,
+  exportPrivateKeyToPEM,
+  sign,
+  verify,
+  DecryptionFailedError,
+  InvalidKeyFormatError,
+  KeyTypeMismatchError,
+  UnsupportedAlgorithmError,
+  KeyPair,
+} from "../index";
+
+describe("Key wrapping", () => {
+  let keyPair: KeyPair;
+  let aesKW: CryptoKey;
+  let aesGCM: CryptoKey;
+
+  const aesKey = (name: string) =>
+    crypto.subtle.generateKey({ name, length: 256 }, false, [
+      "wrapKey",
+      "unwrapKey",
+    ]) as Promise<CryptoKey>;
+
+  beforeAll(async () => {
+    [keyPair, aesKW, aesGCM] = await Promise.all([
+      createKeys(),
+      aesKey("AES-KW"),
+      aesKey("AES-GCM"),
+    ]);
+  });
+
+  it("should wrap an RSA key under AES-KW", async () => {
+    const wrapped = await wrapPrivateKey(keyPair.privateKey, aesKW);
+
+    const privateKey = await unwrapPrivateKey(wrapped, aesKW);
+
+    expect(wrapped).toMatch(/^acdw1\.[A-Za-z0-9_-]+$/);
+    expect(privateKey.algorithm).toMatchObject({
+      name: "RSA-OAEP",
+      hash: { name: "SHA-256" },
+    });
+    expect(privateKey.usages).toEqual(["decrypt"]);
+    expect(await exportPrivateKeyToPEM(privateKey)).toBe(
+      await exportPrivateKeyToPEM(keyPair.privateKey)
+    );
+  });
+
+  it("should wrap under AES-GCM and unwrap a non-extractable key", async () => {
+    const encrypted = await encryptWithPubKey("wrapped", keyPair.publicKey);
+
+    const privateKey = await unwrapPrivateKey(
+      await wrapPrivateKey(keyPair.privateKey, aesGCM),
+      aesGCM,
+      { extractable: false }
+    );
+
+    expect(privateKey.extractable).toBe(false);
+    expect(await decryptWithPrivateKey(encrypted, privateKey)).toBe("wrapped");
+  });
+
+  it("should wrap under another service's RSA-OAEP key", async () => {
+    const service = await createKeys(2048, {
+      keyUsages: ["wrapKey", "unwrapKey"],
+      extractable: false,
+    });
+    const signing = await createSigningKeys("ECDSA-P256");
+    const data = new TextEncoder().encode("data");
+
+    const privateKey = await unwrapPrivateKey(
+      await wrapPrivateKey(signing.privateKey, service.publicKey),
+      service.privateKey,
+      { extractable: false }
+    );
+
+    expect(privateKey.algorithm).toMatchObject({
+      name: "ECDSA",
+      namedCurve: "P-256",
+    });
+    expect(
+      await verify(data, await sign(data, privateKey), signing.publicKey)
+    ).toBe(true);
+  });
+
+  it("should reject the wrong key and modified wrapped keys", async () => {
+    const wrapped = await wrapPrivateKey(keyPair.privateKey, aesKW);
+    const bytes = Buffer.from(wrapped.slice("acdw1.".length), "base64url");
+    const modified = (at: number) => {
+      const copy = Buffer.from(bytes);
+      copy[at] ^= 1;
+      return `acdw1.${copy.toString("base64url")}`;
+    };
+
+    const wrongKey = unwrapPrivateKey(wrapped, await aesKey("AES-KW"));
+    await expect(wrongKey).rejects.toBeInstanceOf(DecryptionFailedError);
+    await expect(wrongKey).rejects.toThrow(
+      "Unwrapping failed: wrong unwrapping key, or the wrapped key was modified"
+    );
+    // The usages in the header, the encrypted one-time key and the wrapped key
+    const usages = bytes.indexOf("decrypt");
+    for (const at of [usages, usages + 40, bytes.length - 1]) {
+      await expect(
+        unwrapPrivateKey(modified(at), aesKW)
+      ).rejects.toBeInstanceOf(DecryptionFailedError);
+    }
+    await expect(unwrapPrivateKey(wrapped, aesGCM)).rejects.toThrow(
+      new KeyTypeMismatchError("The key was wrapped with AES-KW, not AES-GCM")
+    );
+  });
+
+  it("should reject malformed wrapped keys", async () => {
+    await expect(unwrapPrivateKey("acdw1.AAAA", aesKW)).rejects.toThrow(
+      new InvalidKeyFormatError("Invalid wrapped key: truncated")
+    );
+    await expect(unwrapPrivateKey("not a key", aesKW)).rejects.toBeInstanceOf(
+      InvalidKeyFormatError
+    );
+    await expect(unwrapPrivateKey("acdw2.AAAA", aesKW)).rejects.toThrow(
+      new UnsupportedAlgorithmError("Unsupported wrapped key version: 2")
+    );
+    const header = Buffer.from("{");
+    const truncatedJSON = Buffer.concat([
+      Buffer.from([0, header.length]),
+      header,
+      Buffer.alloc(2 + 12 + 16),
+    ]);
+    await expect(
+      unwrapPrivateKey(`acdw1.${truncatedJSON.toString("base64url")}`, aesKW)
+    ).rejects.toBeInstanceOf(InvalidKeyFormatError);
+  });
+
+  it("should validate the keys", async () => {
+    const nonExtractable = await createKeys(2048, { extractable: false });
+    const hmac = await crypto.subtle.generateKey(
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"]
+    );
+
+    await expect(
+      wrapPrivateKey(nonExtractable.privateKey, aesKW)
+    ).rejects.toThrow(
+      new KeyTypeMismatchError("The private RSA-OAEP key is not extractable")
+    );
+    await expect(
+      wrapPrivateKey(keyPair.publicKey, aesKW)
+    ).rejects.toBeInstanceOf(KeyTypeMismatchError);
+    await expect(wrapPrivateKey(keyPair.privateKey, hmac)).rejects.toThrow(
+      new UnsupportedAlgorithmError("Unsupported wrapping algorithm: HMAC")
+    );
+    await expect(
+      wrapPrivateKey(keyPair.privateKey, keyPair.publicKey)
+    ).rejects.toThrow(
+      new KeyTypeMismatchError(
+        "The RSA-OAEP key does not have the wrapKey usage"
+      )
+    );
+    await expect(
+      wrapPrivateKey(keyPair.privateKey, keyPair.privateKey)
+    ).rejects.toBeInstanceOf(KeyTypeMismatchError);
+  });
+});
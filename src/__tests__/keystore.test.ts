@@ -0,0 +1,225 @@
+import { mkdtemp, readFile, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { IDBFactory } from "fake-indexeddb";
+import {
+  createKeys,
+  createECKeys,
+  MemoryKeyStore,
+  IndexedDBKeyStore,
+  KeyStore,
+  loadKeyPair,
+  encryptWithPubKey,
+  encryptWithStoredKey,
+  decryptWithStoredKey,
+  decryptBytesWithStoredKey,
+  exportPrivateKeyToPEM,
+  CryptoUtilsError,
+  InvalidKeyFormatError,
+  KeyTypeMismatchError,
+  UnsupportedAlgorithmError,
+  KeyPair,
+} from "../index";
+import { FileSystemKeyStore } from "../node";
+
+describe("Key stores", () => {
+  let directory: string;
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    [directory, keyPair] = await Promise.all([
+      mkdtemp(join(tmpdir(), "acdeu-keystore-")),
+      createKeys(),
+    ]);
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe.each([
+    ["MemoryKeyStore", () => new MemoryKeyStore()],
+    [
+      "FileSystemKeyStore",
+      () =>
+        new FileSystemKeyStore(
+          join(directory, Math.random().toString(36).slice(2))
+        ),
+    ],
+    [
+      "IndexedDBKeyStore",
+      () => new IndexedDBKeyStore({ indexedDB: new IDBFactory() }),
+    ],
+  ])("%s", (_, createStore: () => KeyStore) => {
+    it("should store, list and delete key pairs", async () => {
+      const store = createStore();
+
+      expect(await store.list()).toEqual([]);
+      expect(await store.get("alice")).toBeUndefined();
+
+      await store.set("alice", keyPair);
+      await store.set("bob", await createECKeys("X25519"));
+
+      expect((await store.list()).sort()).toEqual(["alice", "bob"]);
+      expect(await store.delete("alice")).toBe(true);
+      expect(await store.delete("alice")).toBe(false);
+      expect(await store.list()).toEqual(["bob"]);
+    });
+
+    it("should load keys by name into encrypt and decrypt", async () => {
+      const store = createStore();
+      await store.set("alice", keyPair);
+
+      const encrypted = await encryptWithStoredKey("Hello!", store, "alice");
+
+      expect(await decryptWithStoredKey(encrypted, store, "alice")).toBe(
+        "Hello!"
+      );
+      expect(
+        await decryptBytesWithStoredKey(
+          await encryptWithPubKey(new Uint8Array([1, 2]), keyPair.publicKey),
+          store,
+          "alice"
+        )
+      ).toEqual(new Uint8Array([1, 2]));
+      await expect(
+        encryptWithStoredKey("Hello!", store, "carol")
+      ).rejects.toThrow(
+        new CryptoUtilsError("No key pair named carol in the key store")
+      );
+    });
+  });
+
+  describe("FileSystemKeyStore", () => {
+    it("should write files readable only by the owner", async () => {
+      const path = join(directory, "permissions");
+      await new FileSystemKeyStore(path).set("alice", keyPair);
+
+      expect((await stat(path)).mode & 0o777).toBe(0o700);
+      expect((await stat(join(path, "alice.json"))).mode & 0o777).toBe(0o600);
+    });
+
+    it("should wrap private keys with a passphrase", async () => {
+      const path = join(directory, "passphrase");
+      const store = new FileSystemKeyStore(path, {
+        passphrase: "correct horse",
+      });
+      await store.set("alice", keyPair);
+
+      const file = await readFile(join(path, "alice.json"), "utf8");
+      expect(file).toContain("ENCRYPTED PRIVATE KEY");
+
+      const loaded = await loadKeyPair(store, "alice");
+      expect(loaded.privateKey.usages).toEqual(["decrypt"]);
+      expect(await exportPrivateKeyToPEM(loaded.privateKey)).toBe(
+        await exportPrivateKeyToPEM(keyPair.privateKey)
+      );
+      await expect(
+        new FileSystemKeyStore(path).get("alice")
+      ).rejects.toBeInstanceOf(CryptoUtilsError);
+    });
+
+    it("should load non-extractable private keys when asked", async () => {
+      const path = join(directory, "non-extractable");
+      await new FileSystemKeyStore(path).set("alice", keyPair);
+
+      const loaded = await loadKeyPair(
+        new FileSystemKeyStore(path, { extractable: false }),
+        "alice"
+      );
+
+      expect(loaded.privateKey.extractable).toBe(false);
+    });
+
+    it("should reject names that are not plain file names", async () => {
+      const store = new FileSystemKeyStore(directory);
+
+      for (const name of ["../alice", ".hidden", "a/b", ""]) {
+        await expect(store.set(name, keyPair)).rejects.toBeInstanceOf(
+          CryptoUtilsError
+        );
+      }
+    });
+
+    it("should reject non-extractable keys and invalid files", async () => {
+      const path = join(directory, "invalid");
+      const store = new FileSystemKeyStore(path);
+      const nonExtractable = await createKeys(2048, { extractable: false });
+
+      await expect(store.set("alice", nonExtractable)).rejects.toBeInstanceOf(
+        KeyTypeMismatchError
+      );
+
+      await store.set("alice", keyPair);
+      const file = join(path, "alice.json");
+      const stored = JSON.parse(await readFile(file, "utf8"));
+      const { writeFile } = await import("node:fs/promises");
+
+      await writeFile(file, JSON.stringify({ ...stored, version: 2 }));
+      await expect(store.get("alice")).rejects.toThrow(
+        new UnsupportedAlgorithmError("Unsupported key store file version: 2")
+      );
+      await writeFile(file, "{");
+      await expect(store.get("alice")).rejects.toBeInstanceOf(
+        InvalidKeyFormatError
+      );
+    });
+  });
+
+  describe("IndexedDBKeyStore", () => {
+    it("should keep non-extractable CryptoKeys across connections", async () => {
+      const indexedDB = new IDBFactory();
+      const nonExtractable = await createKeys(2048, { extractable: false });
+      const store = new IndexedDBKeyStore({ indexedDB });
+      await store.set("device", nonExtractable);
+      await store.close();
+
+      const loaded = await loadKeyPair(
+        new IndexedDBKeyStore({ indexedDB }),
+        "device"
+      );
+
+      expect(loaded.privateKey.extractable).toBe(false);
+      expect(loaded.privateKey.algorithm.name).toBe("RSA-OAEP");
+      await expect(
+        exportPrivateKeyToPEM(loaded.privateKey)
+      ).rejects.toBeInstanceOf(KeyTypeMismatchError);
+    });
+
+    it("should reject values that are not key pairs", async () => {
+      const store = new IndexedDBKeyStore({ indexedDB: new IDBFactory() });
+
+      await expect(
+        store.set("alice", {
+          publicKey: keyPair.privateKey,
+          privateKey: keyPair.publicKey,
+        })
+      ).rejects.toBeInstanceOf(KeyTypeMismatchError);
+    });
+
+    it("should open the database again after a failed open", async () => {
+      const indexedDB = new IDBFactory();
+      const newer = indexedDB.open("acdeu-keys", 2);
+      await new Promise((resolve) => (newer.onsuccess = resolve));
+      newer.result.close();
+      const store = new IndexedDBKeyStore({ indexedDB });
+
+      await expect(store.list()).rejects.toBeInstanceOf(CryptoUtilsError);
+      await new Promise((resolve) => {
+        indexedDB.deleteDatabase("acdeu-keys").onsuccess = resolve;
+      });
+      await store.set("alice", keyPair);
+      expect(await store.list()).toEqual(["alice"]);
+      expect(await store.delete("alice")).toBe(true);
+      expect(await store.delete("alice")).toBe(false);
+    });
+
+    it("should throw when IndexedDB is not available", async () => {
+      await expect(new IndexedDBKeyStore().list()).rejects.toThrow(
+        new UnsupportedAlgorithmError(
+          "IndexedDB is not available in this environment"
+        )
+      );
+    });
+  });
+});
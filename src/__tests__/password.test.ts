@@ -0,0 +1,190 @@
+import {
+  createKeys,
+  createKeysPEM,
+  encryptWithPassword,
+  decryptWithPassword,
+  decryptBytesWithPassword,
+  reencryptFromPassword,
+  reencryptFromPasswordPEM,
+  decryptContainer,
+  decryptContainerPEM,
+  CryptoUtilsError,
+  DecryptionFailedError,
+  UnsupportedAlgorithmError,
+} from "../index";
+
+// Not valid UTF-8, so a TextDecoder round trip would corrupt it
+const BINARY = new Uint8Array([0x00, 0xff, 0xfe, 0x80, 0xc3, 0x28, 0x7f, 0x01]);
+
+// Keeps the tests fast; the default is 600,000
+const FAST = { iterations: 1000 };
+
+describe("Password-based encryption", () => {
+  it("should store the default KDF parameters with the ciphertext", async () => {
+    const encrypted = await encryptWithPassword("secret", "hunter2");
+    const bytes = Buffer.from(encrypted.data, "base64");
+
+    expect(encrypted.encoding).toBe("base64");
+    expect(bytes.subarray(0, 4).toString()).toBe("ACDP");
+    expect([...bytes.subarray(4, 7)]).toEqual([1, 1, 1]); // version, PBKDF2, SHA-256
+    expect(bytes.readUInt32BE(7)).toBe(600_000);
+    expect(bytes[11]).toBe(16); // salt length
+    expect(await decryptWithPassword(encrypted, "hunter2")).toBe("secret");
+  });
+
+  it("should use the given salt, iterations and hash", async () => {
+    const salt = new Uint8Array(32).fill(7);
+    const options = { salt, iterations: 2000, hash: "SHA-512" } as const;
+
+    const [first, second] = await Promise.all([
+      encryptWithPassword("secret", "hunter2", "hex", options),
+      encryptWithPassword("secret", "hunter2", "hex", options),
+    ]);
+    const bytes = Buffer.from(first.data, "hex");
+
+    expect(bytes[6]).toBe(3);
+    expect(bytes.readUInt32BE(7)).toBe(2000);
+    expect([...bytes.subarray(12, 44)]).toEqual([...salt]);
+    // The IV is random, so the same password and salt give different ciphertexts
+    expect(second.data).not.toBe(first.data);
+    expect(await decryptWithPassword(second, "hunter2")).toBe("secret");
+  });
+
+  it("should round trip binary data and raw output", async () => {
+    const encrypted = await encryptWithPassword(BINARY, "pw", "raw", FAST);
+
+    expect(encrypted.data).toBeInstanceOf(ArrayBuffer);
+    expect(await decryptBytesWithPassword(encrypted, "pw")).toEqual(BINARY);
+  });
+
+  it("should reject a wrong password and modified data", async () => {
+    const encrypted = await encryptWithPassword("secret", "right", "raw", FAST);
+    const modified = (at: number) => {
+      const copy = new Uint8Array(encrypted.data.slice(0));
+      copy[at] ^= 1;
+      return { data: copy.buffer, encoding: "raw" as const };
+    };
+
+    const wrong = decryptWithPassword(encrypted, "wrong");
+    await expect(wrong).rejects.toBeInstanceOf(DecryptionFailedError);
+    await expect(wrong).rejects.toThrow(
+      "Decryption failed: wrong password, or the data was modified"
+    );
+    // The iteration count, the salt and the ciphertext
+    for (const at of [10, 12, encrypted.data.byteLength - 20]) {
+      await expect(decryptWithPassword(modified(at), "right")).rejects.toThrow(
+        DecryptionFailedError
+      );
+    }
+  });
+
+  it("should reject malformed data", async () => {
+    const encrypted = await encryptWithPassword("secret", "pw", "raw", FAST);
+    const bytes = new Uint8Array(encrypted.data);
+    const raw = (data: Uint8Array) => ({
+      data: data.slice().buffer,
+      encoding: "raw" as const,
+    });
+
+    await expect(
+      decryptWithPassword(raw(bytes.subarray(1)), "pw")
+    ).rejects.toThrow(
+      new DecryptionFailedError("Invalid password-encrypted data: bad magic")
+    );
+    await expect(
+      decryptWithPassword(raw(bytes.subarray(0, 40)), "pw")
+    ).rejects.toThrow(
+      new DecryptionFailedError(
+        "Invalid password-encrypted data: truncated data"
+      )
+    );
+    const version2 = bytes.slice();
+    version2[4] = 2;
+    await expect(decryptWithPassword(raw(version2), "pw")).rejects.toThrow(
+      new UnsupportedAlgorithmError(
+        "Unsupported password-encrypted data version: 2"
+      )
+    );
+    // A tampered iteration count is rejected before any key is derived
+    const slow = bytes.slice();
+    slow.set([0xff, 0xff, 0xff, 0xff], 7);
+    const started = Date.now();
+    await expect(decryptWithPassword(raw(slow), "pw")).rejects.toThrow(
+      new DecryptionFailedError(
+        "Invalid password-encrypted data: PBKDF2 iteration count 4294967295 is not 1 to 10000000"
+      )
+    );
+    expect(Date.now() - started).toBeLessThan(1000);
+    const kdf9 = bytes.slice();
+    kdf9[5] = 9;
+    await expect(decryptWithPassword(raw(kdf9), "pw")).rejects.toThrow(
+      new UnsupportedAlgorithmError("Unsupported key derivation function: 9")
+    );
+  });
+
+  it("should validate the options", async () => {
+    await expect(
+      encryptWithPassword("x", "pw", "base64", { iterations: 0 })
+    ).rejects.toThrow(
+      new CryptoUtilsError(
+        "Invalid PBKDF2 iteration count: 0; expected 1 to 10000000"
+      )
+    );
+    await expect(
+      encryptWithPassword("x", "pw", "base64", { iterations: 10_000_001 })
+    ).rejects.toBeInstanceOf(CryptoUtilsError);
+    await expect(
+      encryptWithPassword("x", "pw", "base64", { salt: new Uint8Array(8) })
+    ).rejects.toThrow(
+      new CryptoUtilsError("Invalid salt length: 8 bytes; expected 16 to 255")
+    );
+    await expect(
+      encryptWithPassword("x", "pw", "base64", { kdf: "Argon2id" as "PBKDF2" })
+    ).rejects.toThrow(
+      new UnsupportedAlgorithmError(
+        "Unsupported key derivation function: Argon2id"
+      )
+    );
+    await expect(
+      encryptWithPassword("x", "pw", "base64", { hash: "SHA-1" as "SHA-256" })
+    ).rejects.toThrow(
+      new UnsupportedAlgorithmError("Unsupported PBKDF2 hash: SHA-1")
+    );
+  });
+
+  describe("re-encryption for a public key", () => {
+    it("should move the data into a container", async () => {
+      const { publicKey, privateKey } = await createKeys();
+      const encrypted = await encryptWithPassword(
+        "export",
+        "pw",
+        "base64",
+        FAST
+      );
+
+      const container = await reencryptFromPassword(encrypted, "pw", publicKey);
+
+      expect(container.suite).toBe("RSA-OAEP-256+A256GCM");
+      expect(await decryptContainer(container, privateKey)).toBe("export");
+    });
+
+    it("should accept PEM keys", async () => {
+      const keys = await createKeysPEM();
+      const encrypted = await encryptWithPassword("export", "pw", "hex", FAST);
+
+      const container = await reencryptFromPasswordPEM(
+        encrypted,
+        "pw",
+        keys.publicKey
+      );
+
+      expect(container).toMatch(/^acdx:/);
+      expect(await decryptContainerPEM(container, keys.privateKey)).toBe(
+        "export"
+      );
+      await expect(
+        reencryptFromPasswordPEM(encrypted, "wrong", keys.publicKey)
+      ).rejects.toBeInstanceOf(DecryptionFailedError);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  createKeys,
+  createKeysPEM,
+  createECKeys,
+  encryptForRecipients,
+  encryptForRecipientsPEM,
+  decryptForRecipient,
+  decryptForRecipientPEM,
+  addRecipient,
+  removeRecipient,
+  KeyPair,
+} from "../index";
+
+describe("Multi-recipient envelopes", () => {
+  let user: KeyPair;
+  let admin: KeyPair;
+  let escrow: KeyPair;
+
+  beforeAll(async () => {
+    [user, admin, escrow] = await Promise.all([
+      createKeys(),
+      createKeys(),
+      createECKeys(),
+    ]);
+  });
+
+  describe("encryptForRecipients", () => {
+    it("should produce one ciphertext and one entry per recipient", async () => {
+      const encrypted = await encryptForRecipients("shared secret", [
+        user.publicKey,
+        admin.publicKey,
+        escrow.publicKey,
+      ]);
+
+      expect(encrypted.recipients).toHaveLength(3);
+      expect(encrypted.ciphertext.byteLength).toBe(13);
+      encrypted.recipients.forEach((recipient) => {
+        expect(recipient.keyId).toMatch(/^[0-9a-f]{64}$/);
+        expect(recipient.encryptedKey).toBeInstanceOf(ArrayBuffer);
+      });
+      expect(new Set(encrypted.recipients.map((r) => r.keyId)).size).toBe(3);
+    });
+
+    it("should require at least one recipient", async () => {
+      await expect(encryptForRecipients("data", [])).rejects.toThrow(
+        "At least one recipient public key is required"
+      );
+    });
+  });
+
+  describe("decryptForRecipient", () => {
+    it("should let every recipient decrypt", async () => {
+      const message = "x".repeat(5000);
+      const encrypted = await encryptForRecipients(
+        new TextEncoder().encode(message).buffer,
+        [user.publicKey, admin.publicKey, escrow.publicKey]
+      );
+
+      for (const keys of [user, admin, escrow]) {
+        expect(await decryptForRecipient(encrypted, keys.privateKey)).toBe(
+          message
+        );
+      }
+    });
+
+    it("should use the entry matching the given key id", async () => {
+      const encrypted = await encryptForRecipients("data", [
+        user.publicKey,
+        admin.publicKey,
+      ]);
+      const [userEntry, adminEntry] = encrypted.recipients;
+
+      expect(
+        await decryptForRecipient(encrypted, admin.privateKey, adminEntry.keyId)
+      ).toBe("data");
+      await expect(
+        decryptForRecipient(encrypted, admin.privateKey, userEntry.keyId)
+      ).rejects.toThrow(
+        "No recipient entry can be decrypted with this private key"
+      );
+    });
+
+    it("should reject keys that are not recipients", async () => {
+      const outsider = await createKeys();
+      const encrypted = await encryptForRecipients("data", [user.publicKey]);
+
+      await expect(
+        decryptForRecipient(encrypted, outsider.privateKey)
+      ).rejects.toThrow(
+        "No recipient entry can be decrypted with this private key"
+      );
+    });
+  });
+
+  describe("addRecipient / removeRecipient", () => {
+    it("should add a recipient without re-encrypting the body", async () => {
+      const encrypted = await encryptForRecipients("data", [user.publicKey]);
+
+      const updated = await addRecipient(
+        encrypted,
+        user.privateKey,
+        admin.publicKey
+      );
+
+      expect(updated.recipients).toHaveLength(2);
+      expect(updated.ciphertext).toBe(encrypted.ciphertext);
+      expect(await decryptForRecipient(updated, admin.privateKey)).toBe("data");
+    });
+
+    it("should not duplicate an existing recipient", async () => {
+      const encrypted = await encryptForRecipients("data", [
+        user.publicKey,
+        admin.publicKey,
+      ]);
+
+      const updated = await addRecipient(
+        encrypted,
+        user.privateKey,
+        admin.publicKey
+      );
+
+      expect(updated.recipients).toHaveLength(2);
+    });
+
+    it("should remove a recipient", async () => {
+      const encrypted = await encryptForRecipients("data", [
+        user.publicKey,
+        admin.publicKey,
+      ]);
+
+      const updated = await removeRecipient(encrypted, admin.publicKey);
+
+      expect(updated.recipients).toHaveLength(1);
+      expect(await decryptForRecipient(updated, user.privateKey)).toBe("data");
+      await expect(
+        decryptForRecipient(updated, admin.privateKey)
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("PEM variants", () => {
+    it("should round trip with base64 fields", async () => {
+      const [first, second] = await Promise.all([
+        createKeysPEM(),
+        createKeysPEM(),
+      ]);
+
+      const encrypted = await encryptForRecipientsPEM("Hello 🌍!", [
+        first.publicKey,
+        second.publicKey,
+      ]);
+
+      expect(encrypted.encoding).toBe("base64");
+      expect(typeof encrypted.recipients[0].encryptedKey).toBe("string");
+      expect(await decryptForRecipientPEM(encrypted, second.privateKey)).toBe(
+        "Hello 🌍!"
+      );
+      expect(
+        await decryptForRecipientPEM(
+          encrypted,
+          first.privateKey,
+          encrypted.recipients[0].keyId
+        )
+      ).toBe("Hello 🌍!");
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  createKeys,
+  createECKeys,
+  createSigningKeys,
+  sealFor,
+  openFrom,
+  openBytesFrom,
+  parseContainer,
+  decryptContainerBytes,
+  encryptToContainer,
+  serializeContainerText,
+  DecryptionFailedError,
+  KeyTypeMismatchError,
+  UnsupportedAlgorithmError,
+  KeyPair,
+} from "../index";
+
+describe("Sealed sender messages", () => {
+  let alice: KeyPair; // sender signing keys
+  let bob: KeyPair; // recipient encryption keys
+  let carol: KeyPair;
+
+  beforeAll(async () => {
+    [alice, bob, carol] = await Promise.all([
+      createSigningKeys("Ed25519"),
+      createKeys(),
+      createECKeys("X25519"),
+    ]);
+  });
+
+  it("should seal and open a message", async () => {
+    const sealed = await sealFor(bob.publicKey, alice.privateKey, "Hi Bob");
+
+    expect(sealed.version).toBe(1);
+    expect(sealed.signatureAlgorithm).toBe("Ed25519");
+    expect(sealed.container).toMatch(/^acdx:/);
+    expect(await openFrom(bob.privateKey, alice.publicKey, sealed)).toBe(
+      "Hi Bob"
+    );
+  });
+
+  it("should survive a JSON round trip and seal binary data", async () => {
+    const signer = await createSigningKeys("ECDSA-P256");
+    const data = new Uint8Array([0, 1, 2, 255]);
+
+    const sealed = await sealFor(carol.publicKey, signer.privateKey, data);
+    const restored = JSON.parse(JSON.stringify(sealed));
+
+    expect(
+      await openBytesFrom(carol.privateKey, signer.publicKey, restored)
+    ).toEqual(data);
+  });
+
+  it("should reject a message signed by someone else", async () => {
+    const mallory = await createSigningKeys("Ed25519");
+    const sealed = await sealFor(bob.publicKey, mallory.privateKey, "Hi Bob");
+
+    await expect(
+      openFrom(bob.privateKey, alice.publicKey, sealed)
+    ).rejects.toThrow(
+      new DecryptionFailedError(
+        "Sender verification failed: the message was not signed by this sender key"
+      )
+    );
+  });
+
+  it("should reject a signed payload forwarded to another recipient", async () => {
+    const sealed = await sealFor(bob.publicKey, alice.privateKey, "For Bob");
+
+    // Bob decrypts Alice's signed payload and re-encrypts it for Carol
+    const payload = await decryptContainerBytes(
+      parseContainer(sealed.container),
+      bob.privateKey
+    );
+    const forwarded = {
+      ...sealed,
+      container: serializeContainerText(
+        await encryptToContainer(payload, carol.publicKey)
+      ),
+    };
+
+    await expect(
+      openFrom(carol.privateKey, alice.publicKey, forwarded)
+    ).rejects.toThrow(
+      new DecryptionFailedError(
+        "The sealed message was addressed to another recipient"
+      )
+    );
+  });
+
+  it("should reject a modified container", async () => {
+    const sealed = await sealFor(bob.publicKey, alice.privateKey, "Hi Bob");
+    const container = parseContainer(sealed.container);
+    new Uint8Array(container.ciphertext)[0] ^= 1;
+
+    await expect(
+      openFrom(bob.privateKey, alice.publicKey, {
+        ...sealed,
+        container: serializeContainerText(container),
+      })
+    ).rejects.toBeInstanceOf(DecryptionFailedError);
+  });
+
+  it("should reject an invalid payload", async () => {
+    const container = await encryptToContainer(
+      new Uint8Array([1, 32]),
+      bob.publicKey
+    );
+
+    await expect(
+      openFrom(bob.privateKey, alice.publicKey, {
+        version: 1,
+        signatureAlgorithm: "Ed25519",
+        container: serializeContainerText(container),
+      })
+    ).rejects.toThrow(
+      new DecryptionFailedError("Invalid sealed message payload")
+    );
+  });
+
+  it("should reject mismatched keys and versions", async () => {
+    const sealed = await sealFor(bob.publicKey, alice.privateKey, "Hi Bob");
+    const ecdsa = await createSigningKeys("ECDSA-P256");
+
+    await expect(
+      openFrom(bob.privateKey, ecdsa.publicKey, sealed)
+    ).rejects.toThrow(
+      new KeyTypeMismatchError(
+        "The message was signed with Ed25519, but the sender key is ECDSA-P256"
+      )
+    );
+    await expect(
+      openFrom(bob.privateKey, alice.publicKey, { ...sealed, version: 2 })
+    ).rejects.toThrow(
+      new UnsupportedAlgorithmError("Unsupported sealed message version: 2")
+    );
+    await expect(
+      sealFor(bob.publicKey, bob.privateKey, "data")
+    ).rejects.toBeInstanceOf(KeyTypeMismatchError);
+    await expect(
+      sealFor(bob.publicKey, alice.publicKey, "data")
+    ).rejects.toBeInstanceOf(KeyTypeMismatchError);
+  });
+});
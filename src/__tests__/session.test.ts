@@ -0,0 +1,324 @@
+import {
+  createSigningKeys,
+  fingerprint,
+  HandshakeInitiator,
+  HandshakeResponder,
+  HandshakeInit,
+  HandshakeResponse,
+  Session,
+  SessionMessage,
+  CryptoUtilsError,
+  DecryptionFailedError,
+  InvalidKeyFormatError,
+  KeyTypeMismatchError,
+  UnsupportedAlgorithmError,
+  KeyPair,
+  HandshakeOptions,
+} from "../index";
+
+describe("Secure channel", () => {
+  let client: KeyPair; // initiator signing keys
+  let server: KeyPair; // responder signing keys
+
+  beforeAll(async () => {
+    [client, server] = await Promise.all([
+      createSigningKeys("Ed25519"),
+      createSigningKeys("ECDSA-P256"),
+    ]);
+  });
+
+  // Runs the three handshake messages through JSON, as a transport would
+  async function handshake(
+    options: HandshakeOptions = {}
+  ): Promise<[Session, Session]> {
+    const initiator = await HandshakeInitiator.start(
+      client,
+      server.publicKey,
+      options
+    );
+    const responder = await HandshakeResponder.accept(
+      server,
+      client.publicKey,
+      JSON.parse(JSON.stringify(initiator.message)),
+      options
+    );
+    const { session, message } = await initiator.complete(
+      JSON.parse(JSON.stringify(responder.message))
+    );
+    return [
+      session,
+      await responder.complete(JSON.parse(JSON.stringify(message))),
+    ];
+  }
+
+  it("should exchange messages in both directions", async () => {
+    const [alice, bob] = await handshake();
+
+    const request = await alice.encrypt("ping");
+    expect(await bob.decrypt(request)).toBe("ping");
+    const reply = await bob.encrypt(new Uint8Array([1, 2, 3]));
+    expect(await alice.decryptBytes(reply)).toEqual(new Uint8Array([1, 2, 3]));
+
+    expect(alice.id).toMatch(/^[0-9a-f]{64}$/);
+    expect(bob.id).toBe(alice.id);
+    expect(request).toEqual({
+      epoch: 0,
+      counter: 0,
+      ciphertext: expect.any(String),
+    });
+  });
+
+  it("should number messages in the order encrypt is called", async () => {
+    const [alice, bob] = await handshake({ algorithm: "ECDH-P256" });
+
+    const messages = await Promise.all(
+      ["a", "b", "c"].map((text) => alice.encrypt(text))
+    );
+
+    expect(messages.map((message) => message.counter)).toEqual([0, 1, 2]);
+    expect(
+      await Promise.all(messages.map((message) => bob.decrypt(message)))
+    ).toEqual(["a", "b", "c"]);
+  });
+
+  it("should reject replayed and reordered messages", async () => {
+    const [alice, bob] = await handshake();
+    const first = await alice.encrypt("first");
+    const second = await alice.encrypt("second");
+
+    expect(await bob.decrypt(second)).toBe("second");
+    await expect(bob.decrypt(first)).rejects.toThrow(
+      new DecryptionFailedError(
+        "Replayed or reordered session message: epoch 0 counter 0 is older than the last message received"
+      )
+    );
+    await expect(bob.decrypt(second)).rejects.toBeInstanceOf(
+      DecryptionFailedError
+    );
+  });
+
+  it("should keep its state after a modified message", async () => {
+    const [alice, bob] = await handshake();
+    const message = await alice.encrypt("data");
+    const ciphertext = Buffer.from(message.ciphertext, "base64");
+    ciphertext[0] ^= 1;
+
+    await expect(
+      bob.decrypt({ ...message, ciphertext: ciphertext.toString("base64") })
+    ).rejects.toBeInstanceOf(DecryptionFailedError);
+    await expect(bob.decrypt({ ...message, counter: 5 })).rejects.toThrow(
+      DecryptionFailedError
+    );
+    expect(await bob.decrypt(message)).toBe("data");
+  });
+
+  it("should not decrypt messages of the other direction or another session", async () => {
+    const [alice, bob] = await handshake();
+    const [other] = await handshake();
+    const message = await alice.encrypt("data");
+
+    await expect(alice.decrypt(message)).rejects.toBeInstanceOf(
+      DecryptionFailedError
+    );
+    await expect(other.decrypt(message)).rejects.toBeInstanceOf(
+      DecryptionFailedError
+    );
+    expect(await bob.decrypt(message)).toBe("data");
+  });
+
+  describe("rekeying", () => {
+    it("should follow the sender's rekeys", async () => {
+      const [alice, bob] = await handshake();
+      const before = await alice.encrypt("before");
+
+      await alice.rekey();
+      await alice.rekey();
+      const after = await alice.encrypt("after");
+
+      expect(after).toMatchObject({ epoch: 2, counter: 0 });
+      expect(await bob.decrypt(after)).toBe("after");
+      await expect(bob.decrypt(before)).rejects.toBeInstanceOf(
+        DecryptionFailedError
+      );
+    });
+
+    it("should rekey automatically after rekeyAfter messages", async () => {
+      const [alice, bob] = await handshake({ rekeyAfter: 2 });
+
+      const messages: SessionMessage[] = [];
+      for (const text of ["a", "b", "c", "d", "e"]) {
+        messages.push(await alice.encrypt(text));
+      }
+
+      expect(messages.map(({ epoch, counter }) => [epoch, counter])).toEqual([
+        [0, 0],
+        [0, 1],
+        [1, 0],
+        [1, 1],
+        [2, 0],
+      ]);
+      // A lost message does not stop the session
+      expect(await bob.decrypt(messages[0])).toBe("a");
+      expect(await bob.decrypt(messages[3])).toBe("d");
+      expect(await bob.decrypt(messages[4])).toBe("e");
+    });
+
+    it("should reject a rekeyAfter that is not a positive safe integer", async () => {
+      const initiator = await HandshakeInitiator.start(
+        client,
+        server.publicKey
+      );
+
+      for (const rekeyAfter of [NaN, Infinity, 0, -1, 1.5]) {
+        await expect(
+          HandshakeInitiator.start(client, server.publicKey, { rekeyAfter })
+        ).rejects.toThrow(
+          new CryptoUtilsError(
+            `Invalid rekeyAfter: ${rekeyAfter}; expected a positive safe integer`
+          )
+        );
+        await expect(
+          HandshakeResponder.accept(
+            server,
+            client.publicKey,
+            initiator.message,
+            {
+              rekeyAfter,
+            }
+          )
+        ).rejects.toBeInstanceOf(CryptoUtilsError);
+      }
+    });
+
+    it("should reject messages too many epochs ahead", async () => {
+      const [alice, bob] = await handshake();
+      const message = await alice.encrypt("data");
+
+      await expect(bob.decrypt({ ...message, epoch: 65 })).rejects.toThrow(
+        new DecryptionFailedError(
+          "Session message epoch 65 is too far ahead of epoch 0"
+        )
+      );
+    });
+  });
+
+  describe("handshake", () => {
+    it("should reject a responder that signs with another key", async () => {
+      const mallory = await createSigningKeys("ECDSA-P256");
+      const initiator = await HandshakeInitiator.start(
+        client,
+        server.publicKey
+      );
+      const responder = await HandshakeResponder.accept(
+        mallory,
+        client.publicKey,
+        initiator.message
+      );
+
+      await expect(
+        initiator.complete({
+          ...responder.message,
+          keyId: await fingerprint(server.publicKey),
+        })
+      ).rejects.toThrow(
+        new DecryptionFailedError(
+          "Handshake verification failed: the peer did not sign the handshake with the expected key"
+        )
+      );
+    });
+
+    it("should reject a response with a replaced ephemeral key", async () => {
+      const initiator = await HandshakeInitiator.start(
+        client,
+        server.publicKey
+      );
+      const responder = await HandshakeResponder.accept(
+        server,
+        client.publicKey,
+        initiator.message
+      );
+      const other = await HandshakeInitiator.start(client, server.publicKey);
+
+      await expect(
+        initiator.complete({
+          ...responder.message,
+          ephemeralKey: other.message.ephemeralKey,
+        })
+      ).rejects.toThrow(
+        new DecryptionFailedError(
+          "Handshake verification failed: the peer did not sign the handshake with the expected key"
+        )
+      );
+      await expect(initiator.complete(responder.message)).rejects.toThrow(
+        new CryptoUtilsError("The handshake is already complete")
+      );
+    });
+
+    it("should reject a finish message from another handshake", async () => {
+      const start = () => HandshakeInitiator.start(client, server.publicKey);
+      const accept = (init: HandshakeInit) =>
+        HandshakeResponder.accept(server, client.publicKey, init);
+      const [first, second] = await Promise.all([start(), start()]);
+      const [responder, other] = await Promise.all([
+        accept(first.message),
+        accept(second.message),
+      ]);
+
+      const { message } = await second.complete(other.message);
+
+      await expect(responder.complete(message)).rejects.toBeInstanceOf(
+        DecryptionFailedError
+      );
+    });
+
+    it("should reject a handshake from an unexpected peer", async () => {
+      const initiator = await HandshakeInitiator.start(
+        client,
+        server.publicKey
+      );
+
+      await expect(
+        HandshakeResponder.accept(server, server.publicKey, initiator.message)
+      ).rejects.toThrow(DecryptionFailedError);
+    });
+
+    it("should reject malformed handshake messages", async () => {
+      const initiator = await HandshakeInitiator.start(
+        client,
+        server.publicKey
+      );
+      const accept = (init: HandshakeInit) =>
+        HandshakeResponder.accept(server, client.publicKey, init);
+
+      await expect(
+        accept({ ...initiator.message, version: 2 })
+      ).rejects.toThrow(
+        new UnsupportedAlgorithmError("Unsupported handshake version: 2")
+      );
+      await expect(
+        accept({ ...initiator.message, algorithm: "ECDH-P521" as never })
+      ).rejects.toBeInstanceOf(UnsupportedAlgorithmError);
+      await expect(
+        accept({ ...initiator.message, ephemeralKey: "AAAA" })
+      ).rejects.toThrow(
+        new InvalidKeyFormatError("Invalid handshake ephemeral key")
+      );
+      await expect(
+        initiator.complete(initiator.message as unknown as HandshakeResponse)
+      ).rejects.toThrow(
+        new CryptoUtilsError(
+          "Expected a handshake response message but got init"
+        )
+      );
+    });
+
+    it("should require signing keys", async () => {
+      await expect(
+        HandshakeInitiator.start(
+          { publicKey: client.publicKey, privateKey: client.publicKey },
+          server.publicKey
+        )
+      ).rejects.toBeInstanceOf(KeyTypeMismatchError);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  createKeys,
+  createSigningKeys,
+  splitPrivateKey,
+  combineShares,
+  encryptWithPubKey,
+  decryptWithPrivateKey,
+  exportPrivateKeyToPEM,
+  sign,
+  verify,
+  CryptoUtilsError,
+  InvalidKeyFormatError,
+  KeyTypeMismatchError,
+  UnsupportedAlgorithmError,
+  KeyPair,
+} from "../index";
+
+describe("Shamir secret sharing", () => {
+  let keyPair: KeyPair;
+  let shares: string[];
+
+  beforeAll(async () => {
+    keyPair = await createKeys();
+    shares = await splitPrivateKey(keyPair.privateKey, {
+      shares: 5,
+      threshold: 3,
+    });
+  });
+
+  // Replaces one base64url character in the data part of a share
+  function corrupt(share: string, at: number): string {
+    const i = "acds1.".length + at;
+    return (
+      share.slice(0, i) + (share[i] === "A" ? "B" : "A") + share.slice(i + 1)
+    );
+  }
+
+  it("should rebuild the key from any threshold of shares", async () => {
+    const pem = await exportPrivateKeyToPEM(keyPair.privateKey);
+    const encrypted = await encryptWithPubKey("backup", keyPair.publicKey);
+
+    for (const subset of [
+      [0, 1, 2],
+      [4, 2, 0],
+      [1, 3, 4],
+      [0, 1, 2, 3, 4],
+    ]) {
+      const privateKey = await combineShares(subset.map((i) => shares[i]));
+
+      expect(await exportPrivateKeyToPEM(privateKey)).toBe(pem);
+      expect(privateKey.usages).toEqual(["decrypt"]);
+      expect(await decryptWithPrivateKey(encrypted, privateKey)).toBe("backup");
+    }
+  });
+
+  it("should encode shares with a version prefix", () => {
+    expect(shares).toHaveLength(5);
+    expect(new Set(shares).size).toBe(5);
+    for (const share of shares) {
+      expect(share).toMatch(/^acds1\.[A-Za-z0-9_-]+$/);
+    }
+  });
+
+  it("should keep the algorithm of signing keys", async () => {
+    const signing = await createSigningKeys("ECDSA-P256");
+    const data = new TextEncoder().encode("data");
+
+    const [a, , c] = await splitPrivateKey(signing.privateKey, {
+      shares: 3,
+      threshold: 2,
+    });
+    const privateKey = await combineShares([c, a], { extractable: false });
+
+    expect(privateKey.algorithm).toMatchObject({
+      name: "ECDSA",
+      namedCurve: "P-256",
+    });
+    expect(privateKey.extractable).toBe(false);
+    expect(
+      await verify(data, await sign(data, privateKey), signing.publicKey)
+    ).toBe(true);
+  });
+
+  it("should not rebuild the key from fewer than threshold shares", async () => {
+    await expect(combineShares(shares.slice(0, 2))).rejects.toThrow(
+      new CryptoUtilsError("Need 3 shares to rebuild the key, got 2")
+    );
+    await expect(combineShares([])).rejects.toThrow(
+      new CryptoUtilsError("No shares to combine")
+    );
+  });
+
+  it("should detect corrupted shares", async () => {
+    await expect(
+      combineShares([shares[0], corrupt(shares[1], 40), shares[2]])
+    ).rejects.toThrow(
+      new InvalidKeyFormatError("Share 2 is corrupted: checksum mismatch")
+    );
+    await expect(
+      combineShares([shares[0], "acds1.!!", shares[2]])
+    ).rejects.toBeInstanceOf(InvalidKeyFormatError);
+    await expect(
+      combineShares([shares[0], shares[1], "acds2.AAAA"])
+    ).rejects.toThrow(
+      new UnsupportedAlgorithmError("Unsupported share version: 2")
+    );
+  });
+
+  it("should detect a modified share with a valid checksum", async () => {
+    const bytes = Buffer.from(shares[1].slice("acds1.".length), "base64url");
+    const body = bytes.subarray(0, bytes.length - 4);
+    body[20] ^= 1;
+    const checksum = Buffer.from(
+      await crypto.subtle.digest("SHA-256", body)
+    ).subarray(0, 4);
+    const forged = `acds1.${Buffer.concat([body, checksum]).toString(
+      "base64url"
+    )}`;
+
+    await expect(combineShares([shares[0], forged, shares[2]])).rejects.toThrow(
+      new InvalidKeyFormatError(
+        "The shares do not combine to the split key; a share was modified"
+      )
+    );
+  });
+
+  it("should detect shares of different splits", async () => {
+    const other = await splitPrivateKey(keyPair.privateKey, {
+      shares: 5,
+      threshold: 3,
+    });
+
+    await expect(
+      combineShares([shares[0], shares[1], other[2]])
+    ).rejects.toThrow(
+      new InvalidKeyFormatError("The shares do not come from the same split")
+    );
+    await expect(
+      combineShares([shares[0], shares[1], shares[1]])
+    ).rejects.toThrow(new InvalidKeyFormatError("Duplicate share index 2"));
+  });
+
+  it("should validate the options and the key", async () => {
+    await expect(
+      splitPrivateKey(keyPair.privateKey, { shares: 3, threshold: 4 })
+    ).rejects.toThrow(
+      new CryptoUtilsError("Invalid threshold: 4; expected 2 to 3")
+    );
+    await expect(
+      splitPrivateKey(keyPair.privateKey, { shares: 256, threshold: 2 })
+    ).rejects.toThrow(
+      new CryptoUtilsError("Invalid number of shares: 256; expected 2 to 255")
+    );
+    await expect(
+      splitPrivateKey(keyPair.privateKey, { shares: 3, threshold: 1 })
+    ).rejects.toBeInstanceOf(CryptoUtilsError);
+    await expect(
+      splitPrivateKey(keyPair.publicKey, { shares: 3, threshold: 2 })
+    ).rejects.toBeInstanceOf(KeyTypeMismatchError);
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  createSigningKeys,
+  createSigningKeysPEM,
+  createKeys,
+  sign,
+  verify,
+  signWithPrivateKeyPEM,
+  verifyWithPubKeyPEM,
+  SigningAlgorithm,
+} from "../index";
+
+const algorithms: SigningAlgorithm[] = [
+  "RSA-PSS",
+  "ECDSA-P256",
+  "ECDSA-P384",
+  "Ed25519",
+];
+
+describe("Digital signatures", () => {
+  describe.each(algorithms)("%s", (algorithm) => {
+    it("should sign and verify with CryptoKeys", async () => {
+      const keys = await createSigningKeys(algorithm);
+      const message = "Signed by Alice";
+
+      const signature = await sign(message, keys.privateKey);
+
+      expect(signature).toBeInstanceOf(ArrayBuffer);
+      expect(await verify(message, signature, keys.publicKey)).toBe(true);
+      expect(await verify("Signed by Mallory", signature, keys.publicKey)).toBe(
+        false
+      );
+    });
+
+    it("should sign and verify with PEM keys", async () => {
+      const keys = await createSigningKeysPEM(algorithm);
+      const message = "Hello 🌍!";
+
+      const signature = await signWithPrivateKeyPEM(
+        message,
+        keys.privateKey,
+        algorithm
+      );
+
+      expect(signature).toMatchObject({
+        data: expect.any(String),
+        encoding: "base64",
+      });
+      expect(
+        await verifyWithPubKeyPEM(message, signature, keys.publicKey, algorithm)
+      ).toBe(true);
+    });
+  });
+
+  describe("createSigningKeys", () => {
+    it("should default to RSA-PSS with the requested key size", async () => {
+      const keys = await createSigningKeys(undefined, 3072);
+
+      expect(keys.publicKey.algorithm.name).toBe("RSA-PSS");
+      // @ts-ignore - accessing modulusLength for testing
+      expect(keys.publicKey.algorithm.modulusLength).toBe(3072);
+      expect(keys.privateKey.usages).toEqual(["sign"]);
+    });
+  });
+
+  describe("sign / verify", () => {
+    it("should handle ArrayBuffer input", async () => {
+      const keys = await createSigningKeys("ECDSA-P256");
+      const message = new TextEncoder().encode("binary").buffer;
+
+      const signature = await sign(message, keys.privateKey);
+
+      expect(await verify(message, signature, keys.publicKey)).toBe(true);
+    });
+
+    it("should not verify with a different key", async () => {
+      const keys = await createSigningKeys("Ed25519");
+      const otherKeys = await createSigningKeys("Ed25519");
+
+      const signature = await sign("message", keys.privateKey);
+
+      expect(await verify("message", signature, otherKeys.publicKey)).toBe(
+        false
+      );
+    });
+
+    it("should reject keys that are not signing keys", async () => {
+      const keys = await createKeys();
+
+      await expect(sign("message", keys.privateKey)).rejects.toThrow(
+        "Unsupported signing key algorithm: RSA-OAEP"
+      );
+    });
+  });
+});
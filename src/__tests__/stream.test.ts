@@ -0,0 +1,182 @@
+import {
+  createKeys,
+  createECKeys,
+  createEncryptStream,
+  createDecryptStream,
+  KeyPair,
+} from "../index";
+
+const SEGMENT_SIZE = 64 * 1024;
+const ENCRYPTED_SEGMENT_SIZE = SEGMENT_SIZE + 16;
+
+function streamOf(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function collect(
+  stream: ReadableStream<Uint8Array>
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  const result = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i += 65536) {
+    crypto.getRandomValues(bytes.subarray(i, Math.min(i + 65536, length)));
+  }
+  return bytes;
+}
+
+async function encrypt(
+  data: Uint8Array,
+  publicKey: CryptoKey,
+  chunkSize = 10_000
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < data.length; i += chunkSize) {
+    chunks.push(data.slice(i, i + chunkSize));
+  }
+  return collect(streamOf(chunks).pipeThrough(createEncryptStream(publicKey)));
+}
+
+async function decrypt(
+  data: Uint8Array,
+  privateKey: CryptoKey,
+  chunkSize = 7_000
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < data.length; i += chunkSize) {
+    chunks.push(data.slice(i, i + chunkSize));
+  }
+  return collect(streamOf(chunks).pipeThrough(createDecryptStream(privateKey)));
+}
+
+describe("Streaming encryption", () => {
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    keyPair = await createKeys(2048);
+  });
+
+  it("should round trip data spanning several segments", async () => {
+    const data = randomBytes(3 * SEGMENT_SIZE + 1234);
+
+    const encrypted = await encrypt(data, keyPair.publicKey);
+    const decrypted = await decrypt(encrypted, keyPair.privateKey);
+
+    // header (2 + 256 bytes) + 4 segments with tags
+    expect(encrypted.length).toBe(2 + 256 + data.length + 4 * 16);
+    expect(decrypted).toEqual(data);
+  });
+
+  it("should split a single large chunk into segments", async () => {
+    const data = randomBytes(64 * SEGMENT_SIZE + 99);
+
+    const encrypted = await encrypt(data, keyPair.publicKey, data.length);
+    const decrypted = await decrypt(
+      encrypted,
+      keyPair.privateKey,
+      encrypted.length
+    );
+
+    expect(encrypted.length).toBe(2 + 256 + data.length + 65 * 16);
+    expect(decrypted).toEqual(data);
+  });
+
+  it("should round trip empty input and exact segment multiples", async () => {
+    for (const size of [0, SEGMENT_SIZE, 2 * SEGMENT_SIZE]) {
+      const data = randomBytes(size);
+
+      const encrypted = await encrypt(data, keyPair.publicKey);
+
+      expect(await decrypt(encrypted, keyPair.privateKey)).toEqual(data);
+    }
+  });
+
+  it("should work with elliptic-curve keys", async () => {
+    const keys = await createECKeys("X25519");
+    const data = randomBytes(100_000);
+
+    const encrypted = await encrypt(data, keys.publicKey);
+
+    expect(await decrypt(encrypted, keys.privateKey)).toEqual(data);
+  });
+
+  describe("integrity", () => {
+    let data: Uint8Array;
+    let encrypted: Uint8Array;
+    const headerLength = 2 + 256;
+
+    beforeAll(async () => {
+      data = randomBytes(2 * SEGMENT_SIZE + 100);
+      encrypted = await encrypt(data, keyPair.publicKey);
+    });
+
+    it("should reject a modified segment", async () => {
+      const tampered = encrypted.slice();
+      tampered[headerLength + 10] ^= 0x01;
+
+      await expect(decrypt(tampered, keyPair.privateKey)).rejects.toThrow();
+    });
+
+    it("should reject a stream truncated at a segment boundary", async () => {
+      const truncated = encrypted.slice(
+        0,
+        headerLength + 2 * ENCRYPTED_SEGMENT_SIZE
+      );
+
+      await expect(decrypt(truncated, keyPair.privateKey)).rejects.toThrow();
+    });
+
+    it("should reject reordered segments", async () => {
+      const first = encrypted.slice(
+        headerLength,
+        headerLength + ENCRYPTED_SEGMENT_SIZE
+      );
+      const second = encrypted.slice(
+        headerLength + ENCRYPTED_SEGMENT_SIZE,
+        headerLength + 2 * ENCRYPTED_SEGMENT_SIZE
+      );
+      const reordered = encrypted.slice();
+      reordered.set(second, headerLength);
+      reordered.set(first, headerLength + ENCRYPTED_SEGMENT_SIZE);
+
+      await expect(decrypt(reordered, keyPair.privateKey)).rejects.toThrow();
+    });
+
+    it("should reject a stream without segments", async () => {
+      await expect(
+        decrypt(encrypted.slice(0, headerLength), keyPair.privateKey)
+      ).rejects.toThrow("Encrypted stream is truncated");
+      await expect(
+        decrypt(encrypted.slice(0, 1), keyPair.privateKey)
+      ).rejects.toThrow("Encrypted stream is truncated");
+    });
+
+    it("should not decrypt with the wrong private key", async () => {
+      const otherKeyPair = await createKeys();
+
+      await expect(
+        decrypt(encrypted, otherKeyPair.privateKey)
+      ).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import {
+  createKeys,
+  createSigningKeys,
+  issueToken,
+  verifyToken,
+  sealFor,
+  MemoryNonceStore,
+  NonceStore,
+  DecryptionFailedError,
+  InvalidTokenError,
+  KeyTypeMismatchError,
+  UnsupportedAlgorithmError,
+  KeyPair,
+} from "../index";
+
+describe("Tokens", () => {
+  let issuer: KeyPair; // signing keys
+  let service: KeyPair; // encryption keys of the party verifying tokens
+
+  const issuedAt = new Date("2030-01-01T00:00:00.000Z");
+  const at = (seconds: number) => new Date(issuedAt.getTime() + seconds * 1000);
+
+  beforeAll(async () => {
+    [issuer, service] = await Promise.all([
+      createSigningKeys("Ed25519"),
+      createKeys(),
+    ]);
+  });
+
+  const issue = (
+    claims: Parameters<typeof issueToken>[0],
+    options: Parameters<typeof issueToken>[3] = {}
+  ) =>
+    issueToken(claims, service.publicKey, issuer.privateKey, {
+      currentDate: issuedAt,
+      ...options,
+    });
+
+  const check = (token: string, options: Parameters<typeof verifyToken>[3]) =>
+    verifyToken(token, service.privateKey, issuer.publicKey, options);
+
+  it("should issue a compact URL-safe token and verify its claims", async () => {
+    const token = await issue(
+      { sub: "user-42", scope: ["read"] },
+      { expiresIn: 300 }
+    );
+
+    expect(token).toMatch(/^acdt1\.[A-Za-z0-9_-]+$/);
+    expect(await check(token, { currentDate: at(10) })).toEqual({
+      sub: "user-42",
+      scope: ["read"],
+      iat: issuedAt.getTime() / 1000,
+      exp: issuedAt.getTime() / 1000 + 300,
+    });
+  });
+
+  it("should set iat to the issue time, replacing the claim", async () => {
+    const token = await issue({ iat: 0 }, { expiresIn: 300 });
+
+    expect(await check(token, { currentDate: at(10) })).toEqual({
+      iat: issuedAt.getTime() / 1000,
+      exp: issuedAt.getTime() / 1000 + 300,
+    });
+  });
+
+  it("should reject expired tokens, allowing for clock skew", async () => {
+    const token = await issue({}, { expiresIn: 60 });
+
+    await expect(check(token, { currentDate: at(60) })).rejects.toThrow(
+      new InvalidTokenError("Token expired at 2030-01-01T00:01:00.000Z")
+    );
+    expect(
+      await check(token, { currentDate: at(89), clockTolerance: 30 })
+    ).toHaveProperty("exp");
+  });
+
+  it("should reject tokens before nbf, allowing for clock skew", async () => {
+    const nbf = issuedAt.getTime() / 1000 + 120;
+    const token = await issue({ nbf });
+
+    await expect(check(token, { currentDate: at(0) })).rejects.toThrow(
+      new InvalidTokenError(
+        "Token is not valid before 2030-01-01T00:02:00.000Z"
+      )
+    );
+    expect(
+      await check(token, { currentDate: at(100), clockTolerance: 30 })
+    ).toHaveProperty("nbf", nbf);
+  });
+
+  it("should check the audience", async () => {
+    const token = await issue({ aud: ["billing", "reports"] });
+    const unscoped = await issue({});
+
+    expect(await check(token, { audience: "reports" })).toHaveProperty("aud");
+    await expect(check(token, { audience: ["admin"] })).rejects.toThrow(
+      new InvalidTokenError(
+        "Token audience billing, reports is not one of admin"
+      )
+    );
+    await expect(check(unscoped, { audience: "admin" })).rejects.toThrow(
+      new InvalidTokenError("Token audience (none) is not one of admin")
+    );
+  });
+
+  describe("one-time tokens", () => {
+    it("should reject a token the second time", async () => {
+      const nonceStore = new MemoryNonceStore();
+      const token = await issue({}, { oneTime: true, expiresIn: 60 });
+
+      const claims = await check(token, { nonceStore, currentDate: at(1) });
+
+      expect(claims.jti).toMatch(/^[A-Za-z0-9_-]{22}$/);
+      await expect(
+        check(token, { nonceStore, currentDate: at(2) })
+      ).rejects.toThrow(new InvalidTokenError("Token has already been used"));
+    });
+
+    it("should require a jti when a nonce store is given", async () => {
+      const token = await issue({});
+
+      await expect(
+        check(token, { nonceStore: new MemoryNonceStore() })
+      ).rejects.toThrow(
+        new InvalidTokenError("Token has no jti claim for replay detection")
+      );
+    });
+
+    it("should not record nonces of tokens that fail other checks", async () => {
+      const nonceStore: NonceStore = { add: jest.fn(async () => true) };
+      const token = await issue({ jti: "abc" }, { expiresIn: 60 });
+
+      await expect(
+        check(token, { nonceStore, currentDate: at(61) })
+      ).rejects.toBeInstanceOf(InvalidTokenError);
+      expect(nonceStore.add).not.toHaveBeenCalled();
+
+      await check(token, { nonceStore, currentDate: at(1), clockTolerance: 5 });
+      expect(nonceStore.add).toHaveBeenCalledWith("abc", at(65));
+    });
+
+    it("should forget nonces once they expire", async () => {
+      const nonceStore = new MemoryNonceStore();
+      const past = new Date(Date.now() - 1000);
+
+      expect(await nonceStore.add("a", past)).toBe(true);
+      expect(await nonceStore.add("b")).toBe(true);
+      expect(await nonceStore.add("a")).toBe(true);
+      expect(await nonceStore.add("b")).toBe(false);
+    });
+  });
+
+  it("should reject tokens of another issuer or recipient", async () => {
+    const token = await issue({ sub: "user-42" });
+    const [otherIssuer, otherService] = await Promise.all([
+      createSigningKeys("Ed25519"),
+      createKeys(),
+    ]);
+
+    await expect(
+      verifyToken(token, service.privateKey, otherIssuer.publicKey)
+    ).rejects.toBeInstanceOf(DecryptionFailedError);
+    await expect(
+      verifyToken(token, otherService.privateKey, issuer.publicKey)
+    ).rejects.toBeInstanceOf(DecryptionFailedError);
+  });
+
+  it("should not accept sealed messages as tokens", async () => {
+    const sealed = await sealFor(
+      service.publicKey,
+      issuer.privateKey,
+      JSON.stringify({ sub: "admin" })
+    );
+    const token = `acdt1.${sealed.container.slice("acdx:".length)}`;
+
+    await expect(check(token, {})).rejects.toThrow(
+      new DecryptionFailedError(
+        "Sender verification failed: the message was not signed by this sender key"
+      )
+    );
+  });
+
+  it("should reject malformed tokens and keys", async () => {
+    const token = await issue({});
+
+    await expect(check("not a token", {})).rejects.toBeInstanceOf(
+      InvalidTokenError
+    );
+    await expect(check(token.replace("acdt1", "acdt2"), {})).rejects.toThrow(
+      new UnsupportedAlgorithmError("Unsupported token version: 2")
+    );
+    await expect(
+      issueToken({}, service.publicKey, service.privateKey)
+    ).rejects.toBeInstanceOf(KeyTypeMismatchError);
+    await expect(
+      verifyToken(token, service.privateKey, issuer.privateKey)
+    ).rejects.toBeInstanceOf(KeyTypeMismatchError);
+  });
+
+  it("should reject claims with non-numeric times", async () => {
+    const token = await issue({ exp: "tomorrow" as unknown as number });
+
+    await expect(check(token, {})).rejects.toThrow(
+      new InvalidTokenError("Invalid token claims: exp must be a number")
+    );
+  });
+});
@@ -0,0 +1,431 @@
+// Command-line interface: acdeu <command> [options]
+
+import { readFile, writeFile } from "node:fs/promises";
+import {
+  createKeys,
+  createECKeys,
+  createSigningKeys,
+  exportPublicKeyToPEM,
+  exportPrivateKeyToPEM,
+  encryptToContainerPEM,
+  decryptContainerBytesPEM,
+  parseContainer,
+  serializeContainer,
+  signWithPrivateKeyPEM,
+  verifyWithPubKeyPEM,
+  inspectKeyPEM,
+  CryptoUtilsError,
+  UnsupportedAlgorithmError,
+  EncryptionAlgorithm,
+  SigningAlgorithm,
+  KeyInfo,
+  KeyPair,
+} from "./index";
+
+/** Where a command reads input and writes output; the process streams by default */
+export interface CommandIO {
+  readStdin(): Promise<Uint8Array>;
+  writeStdout(data: string | Uint8Array): void;
+  writeStderr(text: string): void;
+  env: Record<string, string | undefined>;
+}
+
+/** Exit codes of main */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  /** The operation failed, e.g. decryption failed or a signature is not valid */
+  FAILURE: 1,
+  /** Unknown command, unknown option or missing argument */
+  USAGE: 2,
+} as const;
+
+const USAGE = `Usage: acdeu <command> [options]
+
+Commands:
+  keygen   [--algorithm RSA-OAEP] [--size 2048] [--out <prefix>] [--passphrase-env <VAR>] [--force]
+           Algorithms: RSA-OAEP, ECDH-P256, X25519, RSA-PSS, ECDSA-P256, ECDSA-P384, Ed25519.
+           Writes <prefix>.pem and <prefix>.pub.pem, or prints both PEMs.
+  encrypt  --key <public.pem> [--in <file>] [--out <file>] [--encoding base64|raw]
+  decrypt  --key <private.pem> [--in <file>] [--out <file>] [--passphrase-env <VAR>]
+  sign     --key <private.pem> [--in <file>] [--out <file>] [--encoding base64|raw] [--passphrase-env <VAR>]
+  verify   --key <public.pem> --signature <file> [--in <file>] [--encoding base64|raw]
+  inspect  [<key file>] [--passphrase-env <VAR>] [--json]
+
+Data is read from stdin and written to stdout unless --in and --out are given.
+Encrypted data is a self-describing container: text ("acdx:...") for base64, binary for raw.
+Private key passphrases are read from the environment variable named by --passphrase-env.
+
+Exit codes: 0 success, 1 failure (e.g. decryption failed or invalid signature), 2 usage error`;
+
+const ENCRYPTION_ALGORITHMS: EncryptionAlgorithm[] = [
+  "RSA-OAEP",
+  "ECDH-P256",
+  "X25519",
+];
+const SIGNING_ALGORITHMS: SigningAlgorithm[] = [
+  "RSA-PSS",
+  "ECDSA-P256",
+  "ECDSA-P384",
+  "Ed25519",
+];
+const ENCODINGS = ["base64", "raw"];
+
+const COMMANDS: Record<
+  string,
+  {
+    options: string[];
+    flags?: string[];
+    /** The number of positional arguments the command accepts */
+    positionals?: number;
+    run: (args: ParsedArgs, io: CommandIO) => Promise<number>;
+  }
+> = {
+  keygen: {
+    options: ["algorithm", "size", "out", "passphrase-env"],
+    flags: ["force"],
+    run: keygen,
+  },
+  encrypt: { options: ["key", "in", "out", "encoding"], run: encrypt },
+  decrypt: { options: ["key", "in", "out", "passphrase-env"], run: decrypt },
+  sign: {
+    options: ["key", "in", "out", "encoding", "passphrase-env"],
+    run: sign,
+  },
+  verify: {
+    options: ["key", "signature", "in", "encoding"],
+    run: verify,
+  },
+  inspect: {
+    options: ["passphrase-env"],
+    flags: ["json"],
+    positionals: 1,
+    run: inspect,
+  },
+};
+
+/**
+ * Runs the acdeu command line
+ * @param args - The arguments after the program name
+ * @param io - Where to read input and write output (default: the process streams)
+ * @returns A promise that resolves to the exit code
+ */
+export async function main(
+  args: string[],
+  io: CommandIO = processIO
+): Promise<number> {
+  const [name, ...rest] = args;
+  if (name === undefined) {
+    io.writeStderr(`${USAGE}\n`);
+    return EXIT_CODES.USAGE;
+  }
+  if (["help", "--help", "-h"].includes(name)) {
+    io.writeStdout(`${USAGE}\n`);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  try {
+    const command = COMMANDS[name];
+    if (!command) {
+      throw new UsageError(`Unknown command: ${name}`);
+    }
+    return await command.run(parseArgs(rest, command), io);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    io.writeStderr(`acdeu: ${message}\n`);
+    if (error instanceof UsageError) {
+      io.writeStderr("Run 'acdeu --help' for usage.\n");
+      return EXIT_CODES.USAGE;
+    }
+    return EXIT_CODES.FAILURE;
+  }
+}
+
+async function keygen(args: ParsedArgs, io: CommandIO): Promise<number> {
+  const algorithm = oneOf(args, "algorithm", [
+    ...ENCRYPTION_ALGORITHMS,
+    ...SIGNING_ALGORITHMS,
+  ]) as EncryptionAlgorithm | SigningAlgorithm | undefined;
+  const size =
+    args.options.size === undefined ? 2048 : Number(args.options.size);
+  if (!Number.isInteger(size)) {
+    throw new UsageError(`Invalid --size: ${args.options.size}`);
+  }
+
+  let keyPair: KeyPair;
+  if (algorithm === undefined || algorithm === "RSA-OAEP") {
+    keyPair = await createKeys(size);
+  } else if (algorithm === "ECDH-P256" || algorithm === "X25519") {
+    keyPair = await createECKeys(algorithm);
+  } else {
+    keyPair = await createSigningKeys(algorithm, size);
+  }
+  const [publicKey, privateKey] = await Promise.all([
+    exportPublicKeyToPEM(keyPair.publicKey),
+    exportPrivateKeyToPEM(keyPair.privateKey, passphraseOf(args, io)),
+  ]);
+
+  const prefix = args.options.out;
+  if (prefix === undefined) {
+    io.writeStdout(`${publicKey}\n${privateKey}\n`);
+    return EXIT_CODES.SUCCESS;
+  }
+  const flag = args.flags.has("force") ? "w" : "wx";
+  await writeKeyFile(`${prefix}.pem`, `${privateKey}\n`, 0o600, flag);
+  await writeKeyFile(`${prefix}.pub.pem`, `${publicKey}\n`, 0o644, flag);
+  io.writeStderr(`Wrote ${prefix}.pem and ${prefix}.pub.pem\n`);
+  return EXIT_CODES.SUCCESS;
+}
+
+async function encrypt(args: ParsedArgs, io: CommandIO): Promise<number> {
+  const encoding = oneOf(args, "encoding", ENCODINGS) ?? "base64";
+  const publicKeyPEM = await readKey(args);
+  const data = await readInput(args, io);
+
+  const container = await encryptToContainerPEM(
+    data,
+    publicKeyPEM,
+    encryptionAlgorithmOf(await inspectKeyPEM(publicKeyPEM))
+  );
+  await writeOutput(
+    args,
+    io,
+    encoding === "raw"
+      ? new Uint8Array(serializeContainer(parseContainer(container)))
+      : `${container}\n`
+  );
+  return EXIT_CODES.SUCCESS;
+}
+
+async function decrypt(args: ParsedArgs, io: CommandIO): Promise<number> {
+  const privateKeyPEM = await readKey(args);
+  const input = await readInput(args, io);
+
+  // Text containers start with "acdx:"; anything else is read as a binary container
+  const text = new TextDecoder().decode(input).trim();
+  const data = await decryptContainerBytesPEM(
+    text.startsWith("acdx:") ? text : input,
+    privateKeyPEM,
+    passphraseOf(args, io)
+  );
+  await writeOutput(args, io, data);
+  return EXIT_CODES.SUCCESS;
+}
+
+async function sign(args: ParsedArgs, io: CommandIO): Promise<number> {
+  const encoding = oneOf(args, "encoding", ENCODINGS) ?? "base64";
+  const privateKeyPEM = await readKey(args);
+  const passphrase = passphraseOf(args, io);
+  const data = await readInput(args, io);
+
+  const signature = await signWithPrivateKeyPEM(
+    data,
+    privateKeyPEM,
+    signingAlgorithmOf(await inspectKeyPEM(privateKeyPEM, passphrase)),
+    encoding as "base64" | "raw",
+    passphrase
+  );
+  await writeOutput(
+    args,
+    io,
+    signature.encoding === "raw"
+      ? new Uint8Array(signature.data)
+      : `${signature.data}\n`
+  );
+  return EXIT_CODES.SUCCESS;
+}
+
+async function verify(args: ParsedArgs, io: CommandIO): Promise<number> {
+  const encoding = oneOf(args, "encoding", ENCODINGS) ?? "base64";
+  if (args.options.signature === undefined) {
+    throw new UsageError("Missing --signature <file>");
+  }
+  const publicKeyPEM = await readKey(args);
+  const signature = await readFile(args.options.signature);
+  const data = await readInput(args, io);
+
+  const valid = await verifyWithPubKeyPEM(
+    data,
+    encoding === "raw"
+      ? { data: new Uint8Array(signature).buffer, encoding: "raw" }
+      : { data: signature.toString("utf8").trim(), encoding: "base64" },
+    publicKeyPEM,
+    signingAlgorithmOf(await inspectKeyPEM(publicKeyPEM))
+  );
+  if (!valid) {
+    io.writeStderr("Signature is not valid\n");
+    return EXIT_CODES.FAILURE;
+  }
+  io.writeStderr("Signature is valid\n");
+  return EXIT_CODES.SUCCESS;
+}
+
+async function inspect(args: ParsedArgs, io: CommandIO): Promise<number> {
+  const [file] = args.positionals;
+  const pem = new TextDecoder().decode(
+    file === undefined ? await io.readStdin() : await readFile(file)
+  );
+  const info = await inspectKeyPEM(pem, passphraseOf(args, io));
+
+  if (args.flags.has("json")) {
+    io.writeStdout(`${JSON.stringify(info, null, 2)}\n`);
+    return EXIT_CODES.SUCCESS;
+  }
+  io.writeStdout(
+    [
+      `Type:        ${info.type}`,
+      `Algorithm:   ${info.algorithm}${
+        info.namedCurve ? ` (${info.namedCurve})` : ""
+      }`,
+      `Size:        ${info.size} bits`,
+      `Fingerprint: SHA256:${info.fingerprint}`,
+      "",
+    ].join("\n")
+  );
+  return EXIT_CODES.SUCCESS;
+}
+
+function encryptionAlgorithmOf(info: KeyInfo): EncryptionAlgorithm {
+  if (info.algorithm === "RSA") return "RSA-OAEP";
+  if (info.algorithm === "X25519") return "X25519";
+  if (info.namedCurve === "P-256") return "ECDH-P256";
+  throw new UnsupportedAlgorithmError(
+    `Cannot encrypt with a ${info.namedCurve ?? info.algorithm} key`
+  );
+}
+
+function signingAlgorithmOf(info: KeyInfo): SigningAlgorithm {
+  if (info.algorithm === "RSA") return "RSA-PSS";
+  if (info.algorithm === "Ed25519") return "Ed25519";
+  if (info.namedCurve === "P-256") return "ECDSA-P256";
+  if (info.namedCurve === "P-384") return "ECDSA-P384";
+  throw new UnsupportedAlgorithmError(
+    `Cannot sign with a ${info.namedCurve ?? info.algorithm} key`
+  );
+}
+
+interface ParsedArgs {
+  options: Record<string, string | undefined>;
+  flags: Set<string>;
+  positionals: string[];
+}
+
+// Accepts "--name value", "--name=value" and "--flag"
+function parseArgs(
+  args: string[],
+  { options, flags = [], positionals = 0 }: (typeof COMMANDS)[string]
+): ParsedArgs {
+  const parsed: ParsedArgs = {
+    options: {},
+    flags: new Set(),
+    positionals: [],
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+    const [name, inline] = arg.slice(2).split(/=(.*)/s);
+    if (flags.includes(name) && inline === undefined) {
+      parsed.flags.add(name);
+    } else if (options.includes(name)) {
+      const value = inline ?? args[++i];
+      if (value === undefined) {
+        throw new UsageError(`Missing value for --${name}`);
+      }
+      parsed.options[name] = value;
+    } else {
+      throw new UsageError(`Unknown option: --${name}`);
+    }
+  }
+  if (parsed.positionals.length > positionals) {
+    throw new UsageError(
+      `Unexpected argument: ${parsed.positionals[positionals]}`
+    );
+  }
+  return parsed;
+}
+
+function oneOf(
+  args: ParsedArgs,
+  name: string,
+  values: string[]
+): string | undefined {
+  const value = args.options[name];
+  if (value !== undefined && !values.includes(value)) {
+    throw new UsageError(
+      `Invalid --${name}: ${value}; expected one of ${values.join(", ")}`
+    );
+  }
+  return value;
+}
+
+function passphraseOf(args: ParsedArgs, io: CommandIO): string | undefined {
+  const variable = args.options["passphrase-env"];
+  if (variable === undefined) {
+    return undefined;
+  }
+  const passphrase = io.env[variable];
+  if (passphrase === undefined) {
+    throw new UsageError(`Environment variable ${variable} is not set`);
+  }
+  return passphrase;
+}
+
+async function readKey(args: ParsedArgs): Promise<string> {
+  if (args.options.key === undefined) {
+    throw new UsageError("Missing --key <file>");
+  }
+  return await readFile(args.options.key, "utf8");
+}
+
+async function readInput(args: ParsedArgs, io: CommandIO): Promise<Uint8Array> {
+  return args.options.in === undefined
+    ? await io.readStdin()
+    : new Uint8Array(await readFile(args.options.in));
+}
+
+async function writeOutput(
+  args: ParsedArgs,
+  io: CommandIO,
+  data: string | Uint8Array
+): Promise<void> {
+  if (args.options.out === undefined) {
+    io.writeStdout(data);
+  } else {
+    await writeFile(args.options.out, data);
+  }
+}
+
+async function writeKeyFile(
+  path: string,
+  pem: string,
+  mode: number,
+  flag: string
+): Promise<void> {
+  try {
+    await writeFile(path, pem, { mode, flag });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new CryptoUtilsError(
+        `${path} already exists; use --force to overwrite it`
+      );
+    }
+    throw error;
+  }
+}
+
+class UsageError extends Error {}
+
+const processIO: CommandIO = {
+  async readStdin() {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return new Uint8Array(Buffer.concat(chunks));
+  },
+  writeStdout: (data) => process.stdout.write(data),
+  writeStderr: (text) => process.stderr.write(text),
+  env: process.env,
+};
@@ -0,0 +1,523 @@
+// X25519 (RFC 7748) and Ed25519 (RFC 8032) in constant time, for runtimes whose
+// Web Crypto lacks them. Field arithmetic follows TweetNaCl (public domain):
+// elements of GF(2^255 - 19) are 16 limbs of 16 bits in a Float64Array, and
+// secret-dependent choices use masked swaps instead of branches.
+
+type FieldElement = Float64Array;
+// Extended twisted Edwards coordinates (X, Y, Z, T)
+type Point = [FieldElement, FieldElement, FieldElement, FieldElement];
+
+function fe(init?: number[]): FieldElement {
+  const r = new Float64Array(16);
+  if (init) {
+    r.set(init);
+  }
+  return r;
+}
+
+const FE_ZERO = fe();
+const FE_ONE = fe([1]);
+const A24 = fe([0xdb41, 1]); // (486662 - 2) / 4 = 121665
+// d = -121665/121666
+const D = fe([
+  0x78a3, 0x1359, 0x4dca, 0x75eb, 0xd8ab, 0x4141, 0x0a4d, 0x0070, 0xe898,
+  0x7779, 0x4079, 0x8cc7, 0xfe73, 0x2b6f, 0x6cee, 0x5203,
+]);
+const D2 = fe([
+  0xf159, 0x26b2, 0x9b94, 0xebd6, 0xb156, 0x8283, 0x149a, 0x00e0, 0xd130,
+  0xeef3, 0x80f2, 0x198e, 0xfce7, 0x56df, 0xd9dc, 0x2406,
+]);
+// The base point B
+const BASE_X = fe([
+  0xd51a, 0x8f25, 0x2d60, 0xc956, 0xa7b2, 0x9525, 0xc760, 0x692c, 0xdc5c,
+  0xfdd6, 0xe231, 0xc0a4, 0x53fe, 0xcd6e, 0x36d3, 0x2169,
+]);
+const BASE_Y = fe([
+  0x6658, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666,
+  0x6666, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666,
+]);
+// sqrt(-1)
+const SQRT_M1 = fe([
+  0xa0b0, 0x4a0e, 0x1b27, 0xc4ee, 0xe478, 0xad2f, 0x1806, 0x2f43, 0xd7a7,
+  0x3dfb, 0x0099, 0x2b4d, 0xdf0b, 0x4fc1, 0x2480, 0x2b83,
+]);
+// The group order L = 2^252 + 27742317777372353535851937790883648493, little-endian
+const L = new Float64Array([
+  0xed, 0xd3, 0xf5, 0x5c, 0x1a, 0x63, 0x12, 0x58, 0xd6, 0x9c, 0xf7, 0xa2, 0xde,
+  0xf9, 0xde, 0x14, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0x10,
+]);
+const X25519_BASE_U = new Uint8Array(32);
+X25519_BASE_U[0] = 9;
+
+/**
+ * Computes the X25519 function of RFC 7748
+ * @param scalar - The 32-byte scalar (a private key); it is clamped
+ * @param u - The 32-byte u-coordinate (a public key)
+ * @returns The 32-byte u-coordinate of the product
+ */
+export function x25519(scalar: Uint8Array, u: Uint8Array): Uint8Array {
+  const z = scalar.slice(0, 32);
+  z[31] = (z[31] & 127) | 64;
+  z[0] &= 248;
+  const x = fe();
+  unpack25519(x, u);
+
+  // Montgomery ladder over (x2 : z2) = a/c and (x3 : z3) = b/d
+  const a = fe([1]);
+  const b = fe(Array.from(x));
+  const c = fe();
+  const d = fe([1]);
+  const e = fe();
+  const f = fe();
+  for (let i = 254; i >= 0; i--) {
+    const bit = (z[i >>> 3] >>> (i & 7)) & 1;
+    cswap25519(a, b, bit);
+    cswap25519(c, d, bit);
+    add25519(e, a, c);
+    sub25519(a, a, c);
+    add25519(c, b, d);
+    sub25519(b, b, d);
+    square25519(d, e);
+    square25519(f, a);
+    mul25519(a, c, a);
+    mul25519(c, b, e);
+    add25519(e, a, c);
+    sub25519(a, a, c);
+    square25519(b, a);
+    sub25519(c, d, f);
+    mul25519(a, c, A24);
+    add25519(a, a, d);
+    mul25519(c, c, a);
+    mul25519(a, d, f);
+    mul25519(d, b, x);
+    square25519(b, e);
+    cswap25519(a, b, bit);
+    cswap25519(c, d, bit);
+  }
+  inv25519(c, c);
+  mul25519(a, a, c);
+  const result = new Uint8Array(32);
+  pack25519(result, a);
+  return result;
+}
+
+/**
+ * Computes the X25519 public key of a private key
+ * @param privateKey - The 32-byte private key
+ * @returns The 32-byte public key
+ */
+export function x25519PublicKey(privateKey: Uint8Array): Uint8Array {
+  return x25519(privateKey, X25519_BASE_U);
+}
+
+/**
+ * Computes the Ed25519 public key of a private key
+ * @param privateKey - The 32-byte private key (seed)
+ * @returns A promise that resolves to the 32-byte public key
+ */
+export async function ed25519PublicKey(
+  privateKey: Uint8Array
+): Promise<Uint8Array> {
+  const { scalar } = await expandPrivateKey(privateKey);
+  const point = newPoint();
+  scalarBase(point, scalar);
+  const publicKey = new Uint8Array(32);
+  packPoint(publicKey, point);
+  return publicKey;
+}
+
+/**
+ * Signs a message with Ed25519
+ * @param message - The message
+ * @param privateKey - The 32-byte private key (seed)
+ * @param publicKey - The 32-byte public key of privateKey
+ * @returns A promise that resolves to the 64-byte signature
+ */
+export async function ed25519Sign(
+  message: Uint8Array,
+  privateKey: Uint8Array,
+  publicKey: Uint8Array
+): Promise<Uint8Array> {
+  const { scalar, prefix } = await expandPrivateKey(privateKey);
+
+  const r = await sha512(prefix, message);
+  reduce(r);
+  const point = newPoint();
+  scalarBase(point, r);
+  const signature = new Uint8Array(64);
+  packPoint(signature, point);
+
+  const h = await sha512(signature.subarray(0, 32), publicKey, message);
+  reduce(h);
+  // S = r + h * s mod L
+  const x = new Float64Array(64);
+  for (let i = 0; i < 32; i++) {
+    x[i] = r[i];
+  }
+  for (let i = 0; i < 32; i++) {
+    for (let j = 0; j < 32; j++) {
+      x[i + j] += h[i] * scalar[j];
+    }
+  }
+  modL(signature.subarray(32), x);
+  return signature;
+}
+
+/**
+ * Verifies an Ed25519 signature, rejecting non-canonical S values
+ * @param signature - The 64-byte signature
+ * @param message - The message
+ * @param publicKey - The 32-byte public key
+ * @returns A promise that resolves to true if the signature is valid
+ */
+export async function ed25519Verify(
+  signature: Uint8Array,
+  message: Uint8Array,
+  publicKey: Uint8Array
+): Promise<boolean> {
+  const negatedA = newPoint();
+  if (
+    signature.length !== 64 ||
+    publicKey.length !== 32 ||
+    !isReducedScalar(signature.subarray(32)) ||
+    !unpackNegated(negatedA, publicKey)
+  ) {
+    return false;
+  }
+
+  const h = await sha512(signature.subarray(0, 32), publicKey, message);
+  reduce(h);
+  // [S]B - [h]A must encode to R
+  const p = newPoint();
+  scalarMult(p, negatedA, h);
+  const q = newPoint();
+  scalarBase(q, signature.subarray(32));
+  addPoint(p, q);
+  const r = new Uint8Array(32);
+  packPoint(r, p);
+  return equalBytes(r, signature.subarray(0, 32));
+}
+
+async function expandPrivateKey(
+  privateKey: Uint8Array
+): Promise<{ scalar: Uint8Array; prefix: Uint8Array }> {
+  const digest = await sha512(privateKey);
+  digest[0] &= 248;
+  digest[31] &= 127;
+  digest[31] |= 64;
+  return { scalar: digest.subarray(0, 32), prefix: digest.subarray(32) };
+}
+
+async function sha512(...parts: Uint8Array[]): Promise<Uint8Array> {
+  const data = new Uint8Array(
+    parts.reduce((length, part) => length + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return new Uint8Array(await crypto.subtle.digest("SHA-512", data));
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+}
+
+// S must be below L (RFC 8032 section 5.1.7); S is public, so this may branch
+function isReducedScalar(s: Uint8Array): boolean {
+  for (let i = 31; i >= 0; i--) {
+    if (s[i] !== L[i]) {
+      return s[i] < L[i];
+    }
+  }
+  return false;
+}
+
+// Hot loops avoid global lookups, which are slow in sandboxed contexts such as
+// Node.js vm modules
+const floor = Math.floor;
+const product = new Float64Array(31);
+
+function carry25519(o: FieldElement): void {
+  let c = 1;
+  for (let i = 0; i < 16; i++) {
+    const v = o[i] + c + 65535;
+    c = floor(v / 65536);
+    o[i] = v - c * 65536;
+  }
+  o[0] += c - 1 + 37 * (c - 1);
+}
+
+// Swaps p and q when bit is 1, without branching on bit
+function cswap25519(p: FieldElement, q: FieldElement, bit: number): void {
+  const mask = ~(bit - 1);
+  for (let i = 0; i < 16; i++) {
+    const t = mask & (p[i] ^ q[i]);
+    p[i] ^= t;
+    q[i] ^= t;
+  }
+}
+
+function pack25519(o: Uint8Array, n: FieldElement): void {
+  const m = fe();
+  const t = fe(Array.from(n));
+  carry25519(t);
+  carry25519(t);
+  carry25519(t);
+  for (let j = 0; j < 2; j++) {
+    m[0] = t[0] - 0xffed;
+    for (let i = 1; i < 15; i++) {
+      m[i] = t[i] - 0xffff - ((m[i - 1] >> 16) & 1);
+      m[i - 1] &= 0xffff;
+    }
+    m[15] = t[15] - 0x7fff - ((m[14] >> 16) & 1);
+    const borrow = (m[15] >> 16) & 1;
+    m[14] &= 0xffff;
+    cswap25519(t, m, 1 - borrow);
+  }
+  for (let i = 0; i < 16; i++) {
+    o[2 * i] = t[i] & 0xff;
+    o[2 * i + 1] = t[i] >> 8;
+  }
+}
+
+function unpack25519(o: FieldElement, n: Uint8Array): void {
+  for (let i = 0; i < 16; i++) {
+    o[i] = n[2 * i] + (n[2 * i + 1] << 8);
+  }
+  o[15] &= 0x7fff;
+}
+
+function equal25519(a: FieldElement, b: FieldElement): boolean {
+  const c = new Uint8Array(32);
+  const d = new Uint8Array(32);
+  pack25519(c, a);
+  pack25519(d, b);
+  return equalBytes(c, d);
+}
+
+function parity25519(a: FieldElement): number {
+  const d = new Uint8Array(32);
+  pack25519(d, a);
+  return d[0] & 1;
+}
+
+function add25519(o: FieldElement, a: FieldElement, b: FieldElement): void {
+  for (let i = 0; i < 16; i++) {
+    o[i] = a[i] + b[i];
+  }
+}
+
+function sub25519(o: FieldElement, a: FieldElement, b: FieldElement): void {
+  for (let i = 0; i < 16; i++) {
+    o[i] = a[i] - b[i];
+  }
+}
+
+function mul25519(o: FieldElement, a: FieldElement, b: FieldElement): void {
+  const t = product.fill(0);
+  for (let i = 0; i < 16; i++) {
+    for (let j = 0; j < 16; j++) {
+      t[i + j] += a[i] * b[j];
+    }
+  }
+  // 2^256 = 38 mod p
+  for (let i = 0; i < 15; i++) {
+    t[i] += 38 * t[i + 16];
+  }
+  for (let i = 0; i < 16; i++) {
+    o[i] = t[i];
+  }
+  carry25519(o);
+  carry25519(o);
+}
+
+function square25519(o: FieldElement, a: FieldElement): void {
+  mul25519(o, a, a);
+}
+
+// a^(p - 2)
+function inv25519(o: FieldElement, a: FieldElement): void {
+  const c = fe(Array.from(a));
+  for (let i = 253; i >= 0; i--) {
+    square25519(c, c);
+    if (i !== 2 && i !== 4) {
+      mul25519(c, c, a);
+    }
+  }
+  o.set(c);
+}
+
+// a^((p - 5) / 8)
+function pow2523(o: FieldElement, a: FieldElement): void {
+  const c = fe(Array.from(a));
+  for (let i = 250; i >= 0; i--) {
+    square25519(c, c);
+    if (i !== 1) {
+      mul25519(c, c, a);
+    }
+  }
+  o.set(c);
+}
+
+function newPoint(): Point {
+  return [fe(), fe(), fe(), fe()];
+}
+
+function addPoint(p: Point, q: Point): void {
+  const a = fe();
+  const b = fe();
+  const c = fe();
+  const d = fe();
+  const e = fe();
+  const f = fe();
+  const g = fe();
+  const h = fe();
+  const t = fe();
+  sub25519(a, p[1], p[0]);
+  sub25519(t, q[1], q[0]);
+  mul25519(a, a, t);
+  add25519(b, p[0], p[1]);
+  add25519(t, q[0], q[1]);
+  mul25519(b, b, t);
+  mul25519(c, p[3], q[3]);
+  mul25519(c, c, D2);
+  mul25519(d, p[2], q[2]);
+  add25519(d, d, d);
+  sub25519(e, b, a);
+  sub25519(f, d, c);
+  add25519(g, d, c);
+  add25519(h, b, a);
+  mul25519(p[0], e, f);
+  mul25519(p[1], h, g);
+  mul25519(p[2], g, f);
+  mul25519(p[3], e, h);
+}
+
+function cswapPoint(p: Point, q: Point, bit: number): void {
+  for (let i = 0; i < 4; i++) {
+    cswap25519(p[i], q[i], bit);
+  }
+}
+
+function packPoint(r: Uint8Array, p: Point): void {
+  const tx = fe();
+  const ty = fe();
+  const zi = fe();
+  inv25519(zi, p[2]);
+  mul25519(tx, p[0], zi);
+  mul25519(ty, p[1], zi);
+  pack25519(r, ty);
+  r[31] ^= parity25519(tx) << 7;
+}
+
+// p = [s]q with a ladder of constant-time swaps; q is overwritten
+function scalarMult(p: Point, q: Point, s: Uint8Array): void {
+  p[0].set(FE_ZERO);
+  p[1].set(FE_ONE);
+  p[2].set(FE_ONE);
+  p[3].set(FE_ZERO);
+  for (let i = 255; i >= 0; i--) {
+    const bit = (s[(i / 8) | 0] >> (i & 7)) & 1;
+    cswapPoint(p, q, bit);
+    addPoint(q, p);
+    addPoint(p, p);
+    cswapPoint(p, q, bit);
+  }
+}
+
+function scalarBase(p: Point, s: Uint8Array): void {
+  const q = newPoint();
+  q[0].set(BASE_X);
+  q[1].set(BASE_Y);
+  q[2].set(FE_ONE);
+  mul25519(q[3], BASE_X, BASE_Y);
+  scalarMult(p, q, s);
+}
+
+// Decodes a public key to the negation of its point; false if it is not on the curve
+function unpackNegated(r: Point, p: Uint8Array): boolean {
+  const t = fe();
+  const check = fe();
+  const num = fe();
+  const den = fe();
+  const den2 = fe();
+  const den4 = fe();
+  const den6 = fe();
+
+  r[2].set(FE_ONE);
+  unpack25519(r[1], p);
+  square25519(num, r[1]);
+  mul25519(den, num, D);
+  sub25519(num, num, r[2]);
+  add25519(den, r[2], den);
+
+  square25519(den2, den);
+  square25519(den4, den2);
+  mul25519(den6, den4, den2);
+  mul25519(t, den6, num);
+  mul25519(t, t, den);
+
+  pow2523(t, t);
+  mul25519(t, t, num);
+  mul25519(t, t, den);
+  mul25519(t, t, den);
+  mul25519(r[0], t, den);
+
+  square25519(check, r[0]);
+  mul25519(check, check, den);
+  if (!equal25519(check, num)) {
+    mul25519(r[0], r[0], SQRT_M1);
+  }
+  square25519(check, r[0]);
+  mul25519(check, check, den);
+  if (!equal25519(check, num)) {
+    return false;
+  }
+
+  if (parity25519(r[0]) === p[31] >> 7) {
+    sub25519(r[0], FE_ZERO, r[0]);
+  }
+  mul25519(r[3], r[0], r[1]);
+  return true;
+}
+
+// r = x mod L, for x of up to 64 little-endian limbs
+function modL(r: Uint8Array, x: Float64Array): void {
+  for (let i = 63; i >= 32; i--) {
+    let carry = 0;
+    let j = i - 32;
+    for (const k = i - 12; j < k; j++) {
+      x[j] += carry - 16 * x[i] * L[j - (i - 32)];
+      carry = Math.floor((x[j] + 128) / 256);
+      x[j] -= carry * 256;
+    }
+    x[j] += carry;
+    x[i] = 0;
+  }
+  let carry = 0;
+  for (let j = 0; j < 32; j++) {
+    x[j] += carry - (x[31] >> 4) * L[j];
+    carry = x[j] >> 8;
+    x[j] &= 255;
+  }
+  for (let j = 0; j < 32; j++) {
+    x[j] -= carry * L[j];
+  }
+  for (let i = 0; i < 32; i++) {
+    x[i + 1] += x[i] >> 8;
+    r[i] = x[i] & 255;
+  }
+}
+
+// Reduces a 64-byte hash mod L in place; the result is in its first 32 bytes
+function reduce(r: Uint8Array): void {
+  const x = Float64Array.from(r);
+  r.fill(0);
+  modL(r, x);
+}
@@ -0,0 +1,233 @@
+// Minimal DER (ITU-T X.690) encoder and reader used for key formats
+
+import { InvalidKeyFormatError } from "./errors";
+
+export const DER_TAG = {
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  SEQUENCE: 0x30,
+  /** [0] EXPLICIT, e.g. the version of a TBSCertificate */
+  EXPLICIT_0: 0xa0,
+} as const;
+
+export interface DerElement {
+  tag: number;
+  value: Uint8Array;
+  /** Total encoded length including tag and length bytes */
+  byteLength: number;
+}
+
+/**
+ * Encodes a single DER element
+ * @param tag - The tag byte
+ * @param value - The content bytes
+ * @returns The encoded element
+ */
+export function encodeElement(tag: number, value: Uint8Array): Uint8Array {
+  const length = encodeLength(value.length);
+  const result = new Uint8Array(1 + length.length + value.length);
+  result[0] = tag;
+  result.set(length, 1);
+  result.set(value, 1 + length.length);
+  return result;
+}
+
+export function encodeSequence(...elements: Uint8Array[]): Uint8Array {
+  return encodeElement(DER_TAG.SEQUENCE, concat(elements));
+}
+
+/**
+ * Encodes a BIT STRING with no unused bits, as used for key material
+ */
+export function encodeBitString(bytes: Uint8Array): Uint8Array {
+  return encodeElement(
+    DER_TAG.BIT_STRING,
+    concat([new Uint8Array([0]), bytes])
+  );
+}
+
+export function encodeOctetString(bytes: Uint8Array): Uint8Array {
+  return encodeElement(DER_TAG.OCTET_STRING, bytes);
+}
+
+export function encodeNull(): Uint8Array {
+  return encodeElement(DER_TAG.NULL, new Uint8Array(0));
+}
+
+/**
+ * Encodes a non-negative INTEGER from a number or big-endian bytes
+ */
+export function encodeInteger(value: number | Uint8Array): Uint8Array {
+  let bytes: Uint8Array;
+  if (typeof value === "number") {
+    const digits: number[] = [];
+    do {
+      digits.unshift(value % 256);
+      value = Math.floor(value / 256);
+    } while (value > 0);
+    bytes = new Uint8Array(digits);
+  } else {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0) start++;
+    bytes = value.subarray(start);
+  }
+  // A leading zero keeps the value positive when the high bit is set
+  return encodeElement(
+    DER_TAG.INTEGER,
+    bytes[0] & 0x80 ? concat([new Uint8Array([0]), bytes]) : bytes
+  );
+}
+
+/**
+ * Encodes an OBJECT IDENTIFIER from dotted notation, e.g. "1.2.840.113549.1.1.1"
+ */
+export function encodeOid(oid: string): Uint8Array {
+  const arcs = oid.split(".").map(Number);
+  const bytes: number[] = [arcs[0] * 40 + arcs[1]];
+  for (const arc of arcs.slice(2)) {
+    const encoded = [arc & 0x7f];
+    for (
+      let rest = Math.floor(arc / 128);
+      rest > 0;
+      rest = Math.floor(rest / 128)
+    ) {
+      encoded.unshift((rest & 0x7f) | 0x80);
+    }
+    bytes.push(...encoded);
+  }
+  return encodeElement(DER_TAG.OID, new Uint8Array(bytes));
+}
+
+/**
+ * Reads the DER element starting at offset
+ * @param bytes - The encoded bytes
+ * @param offset - The offset of the tag byte (default: 0)
+ * @returns The element's tag, content and encoded length
+ */
+export function readElement(bytes: Uint8Array, offset: number = 0): DerElement {
+  if (offset + 2 > bytes.length) {
+    throw new InvalidKeyFormatError("Invalid DER: unexpected end of data");
+  }
+
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let headerLength = 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) {
+      throw new InvalidKeyFormatError(
+        "Invalid DER: unsupported length encoding"
+      );
+    }
+    if (offset + 2 + lengthBytes > bytes.length) {
+      throw new InvalidKeyFormatError("Invalid DER: unexpected end of data");
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    headerLength += lengthBytes;
+  }
+
+  const start = offset + headerLength;
+  if (start + length > bytes.length) {
+    throw new InvalidKeyFormatError("Invalid DER: element length exceeds data");
+  }
+
+  return {
+    tag,
+    value: bytes.subarray(start, start + length),
+    byteLength: headerLength + length,
+  };
+}
+
+/**
+ * Reads an element with the expected tag that must span all of bytes, e.g. a whole key structure
+ */
+export function readComplete(bytes: Uint8Array, tag: number): DerElement {
+  const element = readExpected(bytes, tag);
+  if (element.byteLength !== bytes.length) {
+    throw new InvalidKeyFormatError("Invalid DER: trailing data");
+  }
+  return element;
+}
+
+/**
+ * Reads the elements contained in a constructed value, e.g. the fields of a SEQUENCE
+ */
+export function readChildren(value: Uint8Array): DerElement[] {
+  const children: DerElement[] = [];
+  for (let offset = 0; offset < value.length; ) {
+    const child = readElement(value, offset);
+    children.push(child);
+    offset += child.byteLength;
+  }
+  return children;
+}
+
+/**
+ * Reads an element and checks that it has the expected tag
+ */
+export function readExpected(
+  bytes: Uint8Array,
+  tag: number,
+  offset: number = 0
+): DerElement {
+  const element = readElement(bytes, offset);
+  if (element.tag !== tag) {
+    throw new InvalidKeyFormatError(
+      `Invalid DER: expected tag 0x${tag.toString(
+        16
+      )}, found 0x${element.tag.toString(16)}`
+    );
+  }
+  return element;
+}
+
+export function decodeOid(value: Uint8Array): string {
+  const first = value[0];
+  const arcs =
+    first < 80 ? [Math.floor(first / 40), first % 40] : [2, first - 80];
+  let arc = 0;
+  for (const byte of value.subarray(1)) {
+    arc = arc * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      arcs.push(arc);
+      arc = 0;
+    }
+  }
+  return arcs.join(".");
+}
+
+export function decodeInteger(value: Uint8Array): number {
+  if (value.length > 6) {
+    throw new InvalidKeyFormatError("Invalid DER: integer is too large");
+  }
+  return value.reduce((result, byte) => result * 256 + byte, 0);
+}
+
+function encodeLength(length: number): Uint8Array {
+  if (length < 0x80) {
+    return new Uint8Array([length]);
+  }
+  const bytes: number[] = [];
+  for (let rest = length; rest > 0; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest & 0xff);
+  }
+  return new Uint8Array([0x80 | bytes.length, ...bytes]);
+}
+
+function concat(arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    arrays.reduce((length, array) => length + array.length, 0)
+  );
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
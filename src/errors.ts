@@ -0,0 +1,65 @@
+// Error classes thrown by the public functions
+
+/**
+ * Base class of every error thrown by this library.
+ * Errors raised by the platform (DOMException, atob, JSON.parse) are kept as `cause`.
+ */
+export class CryptoUtilsError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = "CryptoUtilsError";
+    if (options && "cause" in options) {
+      this.cause = options.cause;
+    }
+  }
+}
+
+/** A PEM, DER or JWK key is malformed, truncated or cannot be imported */
+export class InvalidKeyFormatError extends CryptoUtilsError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "InvalidKeyFormatError";
+  }
+}
+
+/** A key was passed where another kind of key is expected, e.g. a private key as a public key */
+export class KeyTypeMismatchError extends CryptoUtilsError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "KeyTypeMismatchError";
+  }
+}
+
+/** The plaintext is longer than RSA-OAEP can encrypt with this key */
+export class PlaintextTooLargeError extends CryptoUtilsError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "PlaintextTooLargeError";
+  }
+}
+
+/** The ciphertext is corrupted, was modified, or was not encrypted for this key */
+export class DecryptionFailedError extends CryptoUtilsError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "DecryptionFailedError";
+  }
+}
+
+/** An algorithm, format version or encoding is not supported */
+export class UnsupportedAlgorithmError extends CryptoUtilsError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "UnsupportedAlgorithmError";
+  }
+}
+
+/** A token is expired, not yet valid, for another audience, or was already used */
+export class InvalidTokenError extends CryptoUtilsError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "InvalidTokenError";
+  }
+}
@@ -0,0 +1,161 @@
+// Node.js-only additions, kept out of the main entry so that browser and Workers
+// bundles never have to resolve Node.js built-ins
+
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import {
+  exportPrivateKeyToPEM,
+  exportPublicKeyToPEM,
+  importPrivateKeyFromPEM,
+  importPublicKeyFromPEM,
+  CryptoUtilsError,
+  InvalidKeyFormatError,
+  UnsupportedAlgorithmError,
+  KeyPair,
+  KeyStore,
+} from "./index";
+import { keyImportParams } from "./subtle";
+
+export interface FileSystemKeyStoreOptions {
+  /** Passphrase to wrap private keys with (PBES2, as in exportPrivateKeyToPEM) */
+  passphrase?: string;
+  /** Whether loaded private keys can be exported (default: true) */
+  extractable?: boolean;
+}
+
+/**
+ * Stores each key pair as a JSON file of PEM strings in a directory.
+ * The directory is created with mode 0700 and the files with mode 0600.
+ * Only extractable key pairs can be stored.
+ */
+export class FileSystemKeyStore implements KeyStore {
+  constructor(
+    private readonly directory: string,
+    private readonly options: FileSystemKeyStoreOptions = {}
+  ) {}
+
+  async get(name: string): Promise<KeyPair | undefined> {
+    let json: string;
+    try {
+      json = await readFile(this.pathOf(name), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+
+    let stored: StoredKeyPairFile;
+    try {
+      stored = JSON.parse(json);
+    } catch (cause) {
+      throw new InvalidKeyFormatError(
+        `Invalid key store file for ${name}: malformed JSON`,
+        { cause }
+      );
+    }
+    if (stored.version !== KEY_STORE_FILE_VERSION) {
+      throw new UnsupportedAlgorithmError(
+        `Unsupported key store file version: ${stored.version}`
+      );
+    }
+
+    const [publicKey, privateKey] = await Promise.all([
+      importPublicKeyFromPEM(
+        stored.publicKey,
+        stored.algorithm,
+        stored.publicKeyUsages
+      ),
+      importPrivateKeyFromPEM(
+        stored.privateKey,
+        stored.algorithm,
+        stored.privateKeyUsages,
+        this.options.passphrase,
+        this.options.extractable ?? true
+      ),
+    ]);
+    return { publicKey, privateKey };
+  }
+
+  async set(name: string, keyPair: KeyPair): Promise<void> {
+    const path = this.pathOf(name);
+    const [publicKey, privateKey] = await Promise.all([
+      exportPublicKeyToPEM(keyPair.publicKey),
+      exportPrivateKeyToPEM(keyPair.privateKey, this.options.passphrase),
+    ]);
+    const stored: StoredKeyPairFile = {
+      version: KEY_STORE_FILE_VERSION,
+      algorithm: keyImportParams(keyPair.publicKey),
+      publicKey,
+      publicKeyUsages: keyPair.publicKey.usages,
+      privateKey,
+      privateKeyUsages: keyPair.privateKey.usages,
+    };
+
+    // Write to a temporary file and rename so readers never see a partial file
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const temporary = `${path}.${Buffer.from(
+      crypto.getRandomValues(new Uint8Array(8))
+    ).toString("hex")}.tmp`;
+    await writeFile(temporary, JSON.stringify(stored, null, 2), {
+      mode: 0o600,
+    });
+    await rename(temporary, path);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    try {
+      await unlink(this.pathOf(name));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async list(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    return files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.slice(0, -".json".length))
+      .sort();
+  }
+
+  private pathOf(name: string): string {
+    // Names become file names, so path separators and leading dots are not allowed
+    if (!/^[A-Za-z0-9_-][A-Za-z0-9._-]*$/.test(name)) {
+      throw new CryptoUtilsError(
+        `Invalid key name: ${name}; use letters, digits, ".", "_" and "-"`
+      );
+    }
+    return join(this.directory, `${name}.json`);
+  }
+}
+
+const KEY_STORE_FILE_VERSION = 1;
+
+interface StoredKeyPairFile {
+  version: number;
+  algorithm: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+  publicKey: string;
+  publicKeyUsages: KeyUsage[];
+  privateKey: string;
+  privateKeyUsages: KeyUsage[];
+}
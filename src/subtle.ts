@@ -0,0 +1,645 @@
+// Web Crypto with a pure-TypeScript fallback for Ed25519 and X25519, for runtimes
+// whose crypto.subtle does not implement them
+
+import {
+  DER_TAG,
+  decodeOid,
+  encodeBitString,
+  encodeInteger,
+  encodeOctetString,
+  encodeOid,
+  encodeSequence,
+  readChildren,
+  readComplete,
+} from "./der";
+import {
+  ed25519PublicKey,
+  ed25519Sign,
+  ed25519Verify,
+  x25519,
+  x25519PublicKey,
+} from "./curve25519";
+import {
+  InvalidKeyFormatError,
+  KeyTypeMismatchError,
+  UnsupportedAlgorithmError,
+} from "./errors";
+
+export type CapabilityAlgorithm =
+  | "RSA-OAEP"
+  | "RSA-PSS"
+  | "ECDSA-P256"
+  | "ECDSA-P384"
+  | "ECDH-P256"
+  | "Ed25519"
+  | "X25519"
+  | "AES-GCM"
+  | "AES-KW";
+
+/** How an algorithm is implemented: by Web Crypto, by this library, or not at all */
+export type Capability = "native" | "fallback" | "unsupported";
+
+export type Capabilities = Record<CapabilityAlgorithm, Capability>;
+
+/**
+ * Detects which algorithms the runtime's Web Crypto implements. Ed25519 and X25519
+ * are "fallback" where it lacks them: this library then implements them itself.
+ * The result is computed once.
+ * @returns A promise that resolves to the implementation of each algorithm
+ */
+export function getCapabilities(): Promise<Capabilities> {
+  capabilities ??= detectCapabilities();
+  return capabilities;
+}
+
+let capabilities: Promise<Capabilities> | undefined;
+
+async function detectCapabilities(): Promise<Capabilities> {
+  const probes: Record<CapabilityAlgorithm, () => Promise<unknown>> = {
+    // Generating RSA keys is slow; an invalid JWK fails with DataError instead
+    // of NotSupportedError when the algorithm is known
+    "RSA-OAEP": () =>
+      crypto.subtle.importKey(
+        "jwk",
+        {},
+        { name: "RSA-OAEP", hash: "SHA-256" },
+        false,
+        []
+      ),
+    "RSA-PSS": () =>
+      crypto.subtle.importKey(
+        "jwk",
+        {},
+        { name: "RSA-PSS", hash: "SHA-256" },
+        false,
+        []
+      ),
+    "ECDSA-P256": () =>
+      crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, [
+        "sign",
+      ]),
+    "ECDSA-P384": () =>
+      crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-384" }, false, [
+        "sign",
+      ]),
+    "ECDH-P256": () =>
+      crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, false, [
+        "deriveBits",
+      ]),
+    Ed25519: () =>
+      crypto.subtle.generateKey({ name: "Ed25519" }, false, ["sign", "verify"]),
+    X25519: () =>
+      crypto.subtle.generateKey({ name: "X25519" }, false, ["deriveBits"]),
+    "AES-GCM": () =>
+      crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+        "encrypt",
+      ]),
+    "AES-KW": () =>
+      crypto.subtle.generateKey({ name: "AES-KW", length: 256 }, false, [
+        "wrapKey",
+      ]),
+  };
+
+  const entries = await Promise.all(
+    (Object.keys(probes) as CapabilityAlgorithm[]).map(async (algorithm) => {
+      let capability: Capability = "native";
+      try {
+        await probes[algorithm]();
+      } catch (error) {
+        if (isNotSupported(error)) {
+          capability = algorithm in FALLBACK_OIDS ? "fallback" : "unsupported";
+        }
+      }
+      return [algorithm, capability] as const;
+    })
+  );
+  return Object.fromEntries(entries) as Capabilities;
+}
+
+// Older runtimes throw a TypeError or a plain Error for unknown algorithm names.
+// Duck-typed: the error may come from another realm
+function isNotSupported(error: unknown): boolean {
+  const { name, message } = (error ?? {}) as Partial<Error>;
+  return (
+    name === "NotSupportedError" ||
+    /not supported|unrecognized|unknown/i.test(String(message))
+  );
+}
+
+type FallbackAlgorithm = "Ed25519" | "X25519";
+
+const FALLBACK_OIDS: Record<FallbackAlgorithm, string> = {
+  X25519: "1.3.101.110",
+  Ed25519: "1.3.101.112",
+};
+
+// The usages each key type may have, as in Web Crypto, except deriveKey: the
+// shim only implements deriveBits
+const FALLBACK_USAGES: Record<
+  FallbackAlgorithm,
+  { public: KeyUsage[]; private: KeyUsage[] }
+> = {
+  Ed25519: { public: ["verify"], private: ["sign"] },
+  X25519: { public: [], private: ["deriveBits"] },
+};
+
+interface FallbackKeyMaterial {
+  privateKey?: Uint8Array;
+  publicKey: Uint8Array;
+}
+
+// Fallback keys are frozen plain objects shaped like CryptoKey; their key material
+// is only reachable through this map
+const fallbackKeys = new WeakMap<CryptoKey, FallbackKeyMaterial>();
+
+function createFallbackKey(
+  type: "public" | "private",
+  algorithm: FallbackAlgorithm,
+  extractable: boolean,
+  usages: KeyUsage[],
+  material: FallbackKeyMaterial
+): CryptoKey {
+  const invalid = usages.filter(
+    (usage) => !FALLBACK_USAGES[algorithm][type].includes(usage)
+  );
+  if (invalid.length) {
+    throw new KeyTypeMismatchError(
+      `Invalid usages for a ${type} ${algorithm} key: ${invalid.join(", ")}`
+    );
+  }
+  const key = Object.freeze({
+    type,
+    extractable,
+    algorithm: Object.freeze({ name: algorithm }),
+    usages: Object.freeze([...usages]),
+  }) as unknown as CryptoKey;
+  fallbackKeys.set(key, material);
+  return key;
+}
+
+// Resolves the fallback algorithm of a Web Crypto call, or undefined to use Web Crypto
+async function fallbackAlgorithm(
+  algorithm: AlgorithmIdentifier
+): Promise<FallbackAlgorithm | undefined> {
+  const name = typeof algorithm === "string" ? algorithm : algorithm.name;
+  if (name !== "Ed25519" && name !== "X25519") {
+    return undefined;
+  }
+  return (await getCapabilities())[name] === "fallback" ? name : undefined;
+}
+
+function fallbackMaterial(
+  key: CryptoKey,
+  type: KeyType,
+  usage?: KeyUsage
+): FallbackKeyMaterial {
+  const material = fallbackKeys.get(key) as FallbackKeyMaterial;
+  if (key.type !== type) {
+    throw new KeyTypeMismatchError(
+      `Expected a ${type} key but got a ${key.type} key`
+    );
+  }
+  if (usage && !key.usages.includes(usage)) {
+    throw new KeyTypeMismatchError(
+      `The ${key.algorithm.name} key does not have the ${usage} usage`
+    );
+  }
+  return material;
+}
+
+function bytesOf(data: BufferSource): Uint8Array {
+  return ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: unknown): Uint8Array {
+  try {
+    const binary = atob(String(text).replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch (cause) {
+    throw new InvalidKeyFormatError("Invalid JWK: malformed base64url", {
+      cause,
+    });
+  }
+}
+
+function assertKeyLength(bytes: Uint8Array, algorithm: string): Uint8Array {
+  if (bytes.length !== 32) {
+    throw new InvalidKeyFormatError(
+      `Invalid ${algorithm} key: expected 32 bytes, got ${bytes.length}`
+    );
+  }
+  return bytes;
+}
+
+async function publicKeyOf(
+  algorithm: FallbackAlgorithm,
+  privateKey: Uint8Array
+): Promise<Uint8Array> {
+  return algorithm === "Ed25519"
+    ? await ed25519PublicKey(privateKey)
+    : x25519PublicKey(privateKey);
+}
+
+async function importFallbackKey(
+  format: KeyFormat,
+  keyData: BufferSource | JsonWebKey,
+  algorithm: FallbackAlgorithm,
+  extractable: boolean,
+  usages: KeyUsage[]
+): Promise<CryptoKey> {
+  const oid = FALLBACK_OIDS[algorithm];
+  const checkOid = (algorithmIdentifier: Uint8Array) => {
+    const [algorithmOid] = readChildren(algorithmIdentifier);
+    if (decodeOid(algorithmOid.value) !== oid) {
+      throw new KeyTypeMismatchError(
+        `The key is not an ${algorithm} key: ${decodeOid(algorithmOid.value)}`
+      );
+    }
+  };
+
+  switch (format) {
+    case "raw":
+      return createFallbackKey("public", algorithm, extractable, usages, {
+        publicKey: assertKeyLength(
+          bytesOf(keyData as BufferSource).slice(),
+          algorithm
+        ),
+      });
+    case "spki": {
+      // SEQUENCE { AlgorithmIdentifier, BIT STRING }
+      const [algorithmIdentifier, bitString] = readChildren(
+        readComplete(bytesOf(keyData as BufferSource), DER_TAG.SEQUENCE).value
+      );
+      checkOid(algorithmIdentifier.value);
+      if (bitString?.tag !== DER_TAG.BIT_STRING || bitString.value[0] !== 0) {
+        throw new InvalidKeyFormatError(
+          `Invalid ${algorithm} public key: malformed BIT STRING`
+        );
+      }
+      return createFallbackKey("public", algorithm, extractable, usages, {
+        publicKey: assertKeyLength(bitString.value.slice(1), algorithm),
+      });
+    }
+    case "pkcs8": {
+      // SEQUENCE { version, AlgorithmIdentifier, OCTET STRING { OCTET STRING } , ... }
+      const [, algorithmIdentifier, privateKeyField] = readChildren(
+        readComplete(bytesOf(keyData as BufferSource), DER_TAG.SEQUENCE).value
+      );
+      checkOid(algorithmIdentifier.value);
+      const privateKey = assertKeyLength(
+        readComplete(privateKeyField.value, DER_TAG.OCTET_STRING).value.slice(),
+        algorithm
+      );
+      return createFallbackKey("private", algorithm, extractable, usages, {
+        privateKey,
+        publicKey: await publicKeyOf(algorithm, privateKey),
+      });
+    }
+    case "jwk": {
+      const jwk = keyData as JsonWebKey;
+      if (jwk.kty !== "OKP" || jwk.crv !== algorithm) {
+        throw new KeyTypeMismatchError(
+          `The JWK is not an ${algorithm} key: ${jwk.kty} ${jwk.crv}`
+        );
+      }
+      const publicKey = assertKeyLength(fromBase64Url(jwk.x), algorithm);
+      if (jwk.d === undefined) {
+        return createFallbackKey("public", algorithm, extractable, usages, {
+          publicKey,
+        });
+      }
+      const privateKey = assertKeyLength(fromBase64Url(jwk.d), algorithm);
+      const derived = await publicKeyOf(algorithm, privateKey);
+      if (derived.some((byte, i) => byte !== publicKey[i])) {
+        throw new InvalidKeyFormatError(
+          `Invalid ${algorithm} JWK: x does not match d`
+        );
+      }
+      return createFallbackKey("private", algorithm, extractable, usages, {
+        privateKey,
+        publicKey,
+      });
+    }
+    default:
+      throw new UnsupportedAlgorithmError(
+        `Unsupported ${algorithm} key format: ${format}`
+      );
+  }
+}
+
+function exportFallbackKey(
+  format: KeyFormat,
+  key: CryptoKey
+): ArrayBuffer | JsonWebKey {
+  const algorithm = key.algorithm.name as FallbackAlgorithm;
+  const { privateKey, publicKey } = fallbackKeys.get(
+    key
+  ) as FallbackKeyMaterial;
+  if (!key.extractable) {
+    throw new KeyTypeMismatchError(
+      `The ${key.type} ${algorithm} key is not extractable`
+    );
+  }
+  const algorithmIdentifier = encodeSequence(
+    encodeOid(FALLBACK_OIDS[algorithm])
+  );
+
+  if (format === "jwk") {
+    return {
+      kty: "OKP",
+      crv: algorithm,
+      x: toBase64Url(publicKey),
+      ...(privateKey && { d: toBase64Url(privateKey) }),
+      key_ops: [...key.usages],
+      ext: true,
+    };
+  }
+  if (format === "raw" && !privateKey) {
+    return publicKey.slice().buffer;
+  }
+  if (format === "spki" && !privateKey) {
+    return encodeSequence(algorithmIdentifier, encodeBitString(publicKey))
+      .buffer;
+  }
+  if (format === "pkcs8" && privateKey) {
+    return encodeSequence(
+      encodeInteger(0),
+      algorithmIdentifier,
+      encodeOctetString(encodeOctetString(privateKey))
+    ).buffer;
+  }
+  throw new UnsupportedAlgorithmError(
+    `Unsupported format for a ${key.type} ${algorithm} key: ${format}`
+  );
+}
+
+async function deriveFallbackBits(
+  algorithm: EcdhKeyDeriveParams,
+  baseKey: CryptoKey,
+  length: number | null | undefined
+): Promise<ArrayBuffer> {
+  if (!fallbackKeys.has(baseKey)) {
+    // Only the peer's public key is a fallback key
+    const peerKey = await crypto.subtle.importKey(
+      "raw",
+      fallbackMaterial(algorithm.public, "public").publicKey,
+      { name: "X25519" },
+      true,
+      []
+    );
+    return await crypto.subtle.deriveBits(
+      { ...algorithm, public: peerKey },
+      baseKey,
+      length ?? 256
+    );
+  }
+
+  const { privateKey } = fallbackMaterial(baseKey, "private", "deriveBits");
+  if (algorithm.public.algorithm.name !== "X25519") {
+    throw new KeyTypeMismatchError(
+      `Expected an X25519 public key but got ${algorithm.public.algorithm.name}`
+    );
+  }
+  const peerKey = fallbackKeys.has(algorithm.public)
+    ? fallbackMaterial(algorithm.public, "public").publicKey
+    : new Uint8Array(await crypto.subtle.exportKey("raw", algorithm.public));
+  const shared = x25519(privateKey as Uint8Array, peerKey);
+  // A small-order public key gives an all-zero secret (RFC 7748 section 6.1)
+  if (shared.every((byte) => byte === 0)) {
+    throw new InvalidKeyFormatError(
+      "Invalid X25519 public key: the shared secret is zero"
+    );
+  }
+  return shared.slice(0, (length ?? 256) / 8).buffer;
+}
+
+async function generateKey(
+  algorithm: AlgorithmIdentifier,
+  extractable: boolean,
+  keyUsages: KeyUsage[]
+): Promise<CryptoKey | CryptoKeyPair> {
+  const fallback = await fallbackAlgorithm(algorithm);
+  if (!fallback) {
+    return await crypto.subtle.generateKey(algorithm, extractable, keyUsages);
+  }
+  const privateKey = crypto.getRandomValues(new Uint8Array(32));
+  const material = {
+    privateKey,
+    publicKey: await publicKeyOf(fallback, privateKey),
+  };
+  const { public: publicUsages, private: privateUsages } =
+    FALLBACK_USAGES[fallback];
+  return {
+    publicKey: createFallbackKey(
+      "public",
+      fallback,
+      true,
+      keyUsages.filter((usage) => publicUsages.includes(usage)),
+      { publicKey: material.publicKey }
+    ),
+    privateKey: createFallbackKey(
+      "private",
+      fallback,
+      extractable,
+      keyUsages.filter((usage) => privateUsages.includes(usage)),
+      material
+    ),
+  };
+}
+
+async function importKey(
+  format: KeyFormat,
+  keyData: BufferSource | JsonWebKey,
+  algorithm: AlgorithmIdentifier | RsaHashedImportParams | EcKeyImportParams,
+  extractable: boolean,
+  keyUsages: KeyUsage[]
+): Promise<CryptoKey> {
+  const fallback = await fallbackAlgorithm(algorithm);
+  if (!fallback) {
+    return await crypto.subtle.importKey(
+      format as "raw",
+      keyData as BufferSource,
+      algorithm,
+      extractable,
+      keyUsages
+    );
+  }
+  return await importFallbackKey(
+    format,
+    keyData,
+    fallback,
+    extractable,
+    keyUsages
+  );
+}
+
+async function exportKey(
+  format: KeyFormat,
+  key: CryptoKey
+): Promise<ArrayBuffer | JsonWebKey> {
+  return fallbackKeys.has(key)
+    ? exportFallbackKey(format, key)
+    : await crypto.subtle.exportKey(format, key);
+}
+
+async function sign(
+  algorithm: AlgorithmIdentifier | RsaPssParams | EcdsaParams,
+  key: CryptoKey,
+  data: BufferSource
+): Promise<ArrayBuffer> {
+  if (!fallbackKeys.has(key)) {
+    return await crypto.subtle.sign(algorithm, key, data);
+  }
+  const { privateKey, publicKey } = fallbackMaterial(key, "private", "sign");
+  return (await ed25519Sign(bytesOf(data), privateKey as Uint8Array, publicKey))
+    .buffer;
+}
+
+async function verify(
+  algorithm: AlgorithmIdentifier | RsaPssParams | EcdsaParams,
+  key: CryptoKey,
+  signature: BufferSource,
+  data: BufferSource
+): Promise<boolean> {
+  if (!fallbackKeys.has(key)) {
+    return await crypto.subtle.verify(algorithm, key, signature, data);
+  }
+  const { publicKey } = fallbackMaterial(key, "public", "verify");
+  return await ed25519Verify(bytesOf(signature), bytesOf(data), publicKey);
+}
+
+async function deriveBits(
+  algorithm:
+    | AlgorithmIdentifier
+    | EcdhKeyDeriveParams
+    | HkdfParams
+    | Pbkdf2Params,
+  baseKey: CryptoKey,
+  length?: number | null
+): Promise<ArrayBuffer> {
+  const peerKey = (algorithm as EcdhKeyDeriveParams).public;
+  if (!fallbackKeys.has(baseKey) && !(peerKey && fallbackKeys.has(peerKey))) {
+    return await crypto.subtle.deriveBits(algorithm, baseKey, length ?? null);
+  }
+  return await deriveFallbackBits(
+    algorithm as EcdhKeyDeriveParams,
+    baseKey,
+    length
+  );
+}
+
+// Fallback keys are wrapped by carrying their exported bytes in an HMAC key, which
+// imports any raw bytes: the wrapped result is the same as Web Crypto's
+const CARRIER_ALGORITHM: HmacImportParams = { name: "HMAC", hash: "SHA-256" };
+
+async function wrapKey(
+  format: KeyFormat,
+  key: CryptoKey,
+  wrappingKey: CryptoKey,
+  wrapAlgorithm: AlgorithmIdentifier | RsaOaepParams | AesGcmParams
+): Promise<ArrayBuffer> {
+  if (!fallbackKeys.has(key)) {
+    return await crypto.subtle.wrapKey(format, key, wrappingKey, wrapAlgorithm);
+  }
+  const exported = exportFallbackKey(format, key);
+  const carrier = await crypto.subtle.importKey(
+    "raw",
+    format === "jwk"
+      ? new TextEncoder().encode(JSON.stringify(exported))
+      : (exported as ArrayBuffer),
+    CARRIER_ALGORITHM,
+    true,
+    ["sign"]
+  );
+  return await crypto.subtle.wrapKey(
+    "raw",
+    carrier,
+    wrappingKey,
+    wrapAlgorithm
+  );
+}
+
+async function unwrapKey(
+  format: KeyFormat,
+  wrappedKey: BufferSource,
+  unwrappingKey: CryptoKey,
+  unwrapAlgorithm: AlgorithmIdentifier | RsaOaepParams | AesGcmParams,
+  unwrappedKeyAlgorithm:
+    | AlgorithmIdentifier
+    | RsaHashedImportParams
+    | EcKeyImportParams,
+  extractable: boolean,
+  keyUsages: KeyUsage[]
+): Promise<CryptoKey> {
+  const fallback = await fallbackAlgorithm(unwrappedKeyAlgorithm);
+  if (!fallback) {
+    return await crypto.subtle.unwrapKey(
+      format,
+      wrappedKey,
+      unwrappingKey,
+      unwrapAlgorithm,
+      unwrappedKeyAlgorithm,
+      extractable,
+      keyUsages
+    );
+  }
+  const carrier = await crypto.subtle.unwrapKey(
+    "raw",
+    wrappedKey,
+    unwrappingKey,
+    unwrapAlgorithm,
+    CARRIER_ALGORITHM,
+    true,
+    ["sign"]
+  );
+  const keyData = await crypto.subtle.exportKey("raw", carrier);
+  return await importFallbackKey(
+    format,
+    format === "jwk" ? JSON.parse(new TextDecoder().decode(keyData)) : keyData,
+    fallback,
+    extractable,
+    keyUsages
+  );
+}
+
+/**
+ * The crypto.subtle methods that take or produce keys, routed to the pure-TypeScript
+ * implementation for Ed25519 and X25519 when the runtime lacks them
+ */
+export const subtle = {
+  generateKey: generateKey as SubtleCrypto["generateKey"],
+  importKey: importKey as SubtleCrypto["importKey"],
+  exportKey: exportKey as SubtleCrypto["exportKey"],
+  sign,
+  verify,
+  deriveBits,
+  wrapKey,
+  unwrapKey,
+};
+
+/**
+ * The import parameters that recreate a key's algorithm, e.g. for storing keys
+ * alongside their PEM
+ */
+export function keyImportParams(
+  key: CryptoKey
+): RsaHashedImportParams | EcKeyImportParams | Algorithm {
+  const { name, hash, namedCurve } = key.algorithm as KeyAlgorithm & {
+    hash?: KeyAlgorithm;
+    namedCurve?: string;
+  };
+  return {
+    name,
+    ...(hash && { hash: hash.name }),
+    ...(namedCurve && { namedCurve }),
+  };
+}
@@ -1,10 +1,13 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  // bin.ts is the acdeu command; its shebang is kept and the output made executable.
+  // node.ts holds the Node.js-only adapters, published as the "./node" subpath.
+  entry: ["src/index.ts", "src/node.ts", "src/bin.ts"],
   format: ["cjs", "esm"],
-  dts: true,
-  splitting: false,
+  dts: { entry: ["src/index.ts", "src/node.ts"] },
+  // Shared chunks give both entries the same classes, so instanceof checks hold
+  splitting: true,
   sourcemap: true,
   clean: true,
   target: "node16",